@@ -1,51 +1,152 @@
+import { detectUpstreamMode, readUpstreamTokens } from '@/lib/backend-stream';
+import { runQuery, UpstreamError } from '@/lib/mediassist-client';
+import { errorResponse } from '@/lib/chat-error-response';
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatEvent, type ChatStreamEvent } from '@/lib/chat-protocol';
+import { chatRequestSchema, isTooLargeIssue, MAX_BODY_BYTES } from '@/lib/chat-request-schema';
+import { parseSources } from '@/lib/citations';
+import { hasValidConsent } from '@/lib/consent';
+import { DEFAULT_PRESCRIPTION_PROMPT, extractPrescription } from '@/lib/prescription';
+import { detectRedFlags } from '@/lib/red-flags';
+
 export const maxDuration = 30
 
+const HEARTBEAT_INTERVAL = 10000; // every 10s
+
 export async function POST(req: Request) {
   try {
-    const { query, sessionId, img_base64 } = await req.json();
-    const currentSessionId = sessionId || `int_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    if (!hasValidConsent(req)) {
+      return errorResponse(403, { code: 'consent_required', message: 'Accept the current terms before using the assistant.' });
+    }
 
-    const apiRes = await fetch('https://mediassist-5eke.onrender.com/run', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...(sessionId && { 'X-Interaction-ID': sessionId }) },
-      body: JSON.stringify({ query, session_id: currentSessionId, img_base64 }),
-    });
+    const declaredLength = Number(req.headers.get('Content-Length'));
+    if (declaredLength > MAX_BODY_BYTES) {
+      return errorResponse(413, { code: 'payload_too_large', message: 'The message and its images are too large to send.' });
+    }
 
-    if (!apiRes.ok) throw new Error(`Backend error: ${apiRes.status}`);
+    let raw: unknown;
+    try {
+      raw = await req.json();
+    } catch {
+      return errorResponse(400, { code: 'invalid_json', message: 'Request body must be valid JSON.' });
+    }
 
-    const json = await apiRes.json();
-    const text = json.response as string;
-    console.log('Response from backend:', text);
+    const parsed = chatRequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      const { issues } = parsed.error;
+      const tooLarge = issues.some(isTooLargeIssue);
+      return errorResponse(tooLarge ? 413 : 400, {
+        code: tooLarge ? 'payload_too_large' : 'invalid_request',
+        message: issues[0].message,
+        issues: issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+      });
+    }
+    const { query, sessionId, images, medications, patientProfile, history } = parsed.data;
+
+    const currentSessionId = sessionId || `int_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
     const encoder = new TextEncoder();
+    // Tags the backend request; the page runs the same rules for its banner
+    const redFlags = detectRedFlags(query);
+
+    // Aborted when the page stops the answer or the client goes away
+    const upstreamAbort = new AbortController();
+    req.signal.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+    const cancelled = () => upstreamAbort.signal.aborted;
+
     const stream = new ReadableStream({
       async start(controller) {
-        const encoder = new TextEncoder();
-        for (const char of text) {
-          controller.enqueue(encoder.encode(char));
-          await new Promise((r) => setTimeout(r, 10));
-        }
-    
-        const heartbeatInterval = 10000; // every 10s
-        const totalDelay = 5 * 60 * 1000; // 5 minutes
-        const startTime = Date.now();
-    
-        while (Date.now() - startTime < totalDelay) {
-          controller.enqueue(encoder.encode(" "));
-          await new Promise((r) => setTimeout(r, heartbeatInterval));
+        const send = (event: ChatStreamEvent) => {
+          if (!cancelled()) controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        };
+        // Keep the connection alive while the backend is still thinking
+        const heartbeat = setInterval(() => send({ type: 'ping' }), HEARTBEAT_INTERVAL);
+
+        let answer = '';
+        let structuredPrescription: unknown;
+        let rawSources: unknown;
+        let rawImagesConsidered: unknown;
+
+        try {
+          const apiRes = await runQuery({
+            query,
+            sessionId: currentSessionId,
+            images,
+            medications,
+            patientProfile,
+            redFlags,
+            history,
+            interactionId: sessionId,
+            signal: upstreamAbort.signal,
+          });
+
+          const mode = detectUpstreamMode(apiRes.headers.get('Content-Type'));
+          if (mode !== 'json') {
+            // Forward each token as soon as the backend emits it
+            const onFrame = (frame: Record<string, unknown>) => {
+              if (frame.sources !== undefined) rawSources = frame.sources;
+              if (frame.prescription !== undefined) structuredPrescription = frame.prescription;
+              if (frame.images_considered !== undefined) rawImagesConsidered = frame.images_considered;
+            };
+            for await (const token of readUpstreamTokens(apiRes, mode, onFrame)) {
+              answer += token;
+              send({ type: 'delta', text: token });
+            }
+          } else {
+            // Buffered mode: the backend only answers once the whole text is ready
+            const json = await apiRes.json();
+            if (typeof json?.response !== 'string') throw new Error('Backend response has no text');
+            const text: string = json.response;
+            answer = text;
+            structuredPrescription = json.prescription;
+            rawSources = json.sources;
+            rawImagesConsidered = json.images_considered;
+            send({ type: 'delta', text });
+          }
+
+          // Only prescription analyses get the structured card
+          const prescription =
+            images.length > 0 || query === DEFAULT_PRESCRIPTION_PROMPT
+              ? extractPrescription(structuredPrescription, answer)
+              : null;
+          const sources = parseSources(rawSources);
+          // Unknown unless the backend says; legacy backends only read the first image
+          const imagesConsidered = Array.isArray(rawImagesConsidered)
+            ? images.map((_, i) => i).filter((i) => (rawImagesConsidered as unknown[]).includes(i))
+            : null;
+
+          send({
+            type: 'done',
+            sessionId: currentSessionId,
+            imagesConsidered,
+            ...(prescription && { prescription }),
+            ...(sources.length > 0 && { sources }),
+          });
+        } catch (err) {
+          if (cancelled()) return;
+          console.error(err);
+          send(
+            err instanceof UpstreamError
+              ? { type: 'error', code: err.code, message: err.message }
+              : { type: 'error', code: 'bad_response', message: 'The backend sent a response that could not be read.' }
+          );
+        } finally {
+          clearInterval(heartbeat);
+          if (!cancelled()) controller.close();
         }
-    
-        controller.close();
+      },
+      cancel() {
+        upstreamAbort.abort();
       },
     });
-    
+
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
         'X-Interaction-ID': currentSessionId,
       },
     });
   } catch (err) {
     console.error(err);
-    return new Response('Internal Server Error', { status: 500 });
+    return errorResponse(500, { code: 'internal_error', message: 'Internal Server Error' });
   }
 }
@@ -0,0 +1,53 @@
+import { checkInteractions, UpstreamError } from '@/lib/mediassist-client';
+import { errorResponse, statusForUpstreamCode } from '@/lib/chat-error-response';
+import { hasValidConsent } from '@/lib/consent';
+import {
+  buildInteractionResult,
+  interactionRequestSchema,
+  upstreamInteractionsSchema,
+  type InteractionResult,
+} from '@/lib/drug-interactions';
+
+export const maxDuration = 30
+
+// Structured interaction check for the /interactions page. Unlike /api/chat
+// this answers with a single JSON body: the backend returns the whole matrix
+// at once, so there is nothing to stream.
+export async function POST(req: Request) {
+  if (!hasValidConsent(req)) {
+    return errorResponse(403, { code: 'consent_required', message: 'Accept the current terms before checking interactions.' });
+  }
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return errorResponse(400, { code: 'invalid_json', message: 'Request body must be valid JSON.' });
+  }
+
+  const parsed = interactionRequestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const { issues } = parsed.error;
+    return errorResponse(400, {
+      code: 'invalid_request',
+      message: issues[0].message,
+      issues: issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+    });
+  }
+  const { drugs } = parsed.data;
+
+  try {
+    const apiRes = await checkInteractions(drugs, req.signal);
+    const upstream = upstreamInteractionsSchema.safeParse(await apiRes.json().catch(() => null));
+    if (!upstream.success) {
+      return errorResponse(502, { code: 'bad_response', message: 'The backend sent a response that could not be read.' });
+    }
+    return Response.json(buildInteractionResult(drugs, upstream.data.interactions) satisfies InteractionResult);
+  } catch (err) {
+    console.error(err);
+    if (err instanceof UpstreamError) {
+      return errorResponse(statusForUpstreamCode(err.code), { code: err.code, message: err.message });
+    }
+    return errorResponse(500, { code: 'internal_error', message: 'Something went wrong while checking interactions.' });
+  }
+}
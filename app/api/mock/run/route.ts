@@ -0,0 +1,9 @@
+import { getBackendConfig } from '@/lib/config';
+import { handleMockRun } from '@/lib/mock-backend';
+
+export async function POST(req: Request) {
+  if (!getBackendConfig().useMock) {
+    return new Response('Not Found', { status: 404 });
+  }
+  return handleMockRun(req);
+}
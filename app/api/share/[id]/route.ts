@@ -0,0 +1,19 @@
+import { errorResponse } from '@/lib/chat-error-response';
+import { REVOKE_HEADER, type ShareErrorBody } from '@/lib/share';
+import { getShareStorage, loadShare, matchesRevokeToken } from '@/lib/share-store';
+
+// Revokes a share link. Only the browser that created it holds the token.
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  const record = await loadShare(params.id);
+  if (!record) {
+    return errorResponse<ShareErrorBody>(404, { code: 'not_found', message: 'This link does not exist or has already expired.' });
+  }
+
+  const token = req.headers.get(REVOKE_HEADER);
+  if (!token || !matchesRevokeToken(record, token)) {
+    return errorResponse<ShareErrorBody>(403, { code: 'revoke_denied', message: 'This link can only be revoked from the browser that created it.' });
+  }
+
+  await getShareStorage().delete(record.id);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,76 @@
+import { errorResponse } from '@/lib/chat-error-response';
+import { hasValidConsent } from '@/lib/consent';
+import {
+  MAX_SHARE_BYTES,
+  shareRequestSchema,
+  sharePath,
+  type ShareCreated,
+  type ShareErrorBody,
+  type SharedMessage,
+  type ShareRecord,
+} from '@/lib/share';
+import { createShare, hashToken, newRevokeToken, newShareId, shareClient, ShareLimitError } from '@/lib/share-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stores a snapshot of the conversation the user is looking at and returns
+// its read-only link. The revoke token is only ever returned here; the store
+// keeps its hash.
+export async function POST(req: Request) {
+  if (!hasValidConsent(req)) {
+    return errorResponse<ShareErrorBody>(403, { code: 'consent_required', message: 'Accept the current terms before sharing conversations.' });
+  }
+
+  const declaredLength = Number(req.headers.get('Content-Length'));
+  if (declaredLength > MAX_SHARE_BYTES) {
+    return errorResponse<ShareErrorBody>(413, { code: 'payload_too_large', message: 'This conversation is too large to share.' });
+  }
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return errorResponse<ShareErrorBody>(400, { code: 'invalid_json', message: 'Request body must be valid JSON.' });
+  }
+
+  const parsed = shareRequestSchema.safeParse(raw);
+  if (!parsed.success) {
+    return errorResponse<ShareErrorBody>(400, { code: 'invalid_request', message: parsed.error.issues[0].message });
+  }
+  const { title, messages, expiresInDays, redactImages } = parsed.data;
+
+  const snapshot = messages.map(({ images, ...message }) => {
+    const shared: SharedMessage = { ...message, timestamp: message.timestamp.toISOString() };
+    if (images?.length) {
+      if (redactImages) shared.redactedImages = images.length;
+      else shared.images = images;
+    }
+    return shared;
+  });
+
+  const now = new Date();
+  const revokeToken = newRevokeToken();
+  const record: ShareRecord = {
+    id: newShareId(),
+    revokeTokenHash: hashToken(revokeToken),
+    title,
+    messages: snapshot,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS).toISOString(),
+  };
+
+  try {
+    await createShare(record, shareClient(req));
+  } catch (err) {
+    if (err instanceof ShareLimitError) {
+      return errorResponse<ShareErrorBody>(err.code === 'rate_limited' ? 429 : 507, { code: err.code, message: err.message });
+    }
+    console.error(err);
+    return errorResponse<ShareErrorBody>(500, { code: 'internal_error', message: 'The conversation could not be saved for sharing.' });
+  }
+
+  return Response.json(
+    { id: record.id, url: sharePath(record.id), revokeToken, expiresAt: record.expiresAt } satisfies ShareCreated,
+    { status: 201 },
+  );
+}
@@ -0,0 +1,64 @@
+import { transcribeAudio, UpstreamError } from '@/lib/mediassist-client';
+import { errorResponse, statusForUpstreamCode } from '@/lib/chat-error-response';
+import { isTooLargeIssue } from '@/lib/chat-request-schema';
+import { hasValidConsent } from '@/lib/consent';
+import {
+  MAX_AUDIO_BYTES,
+  transcriptionRequestSchema,
+  upstreamTranscriptionSchema,
+  type TranscriptionResult,
+} from '@/lib/voice-input';
+
+export const maxDuration = 30
+
+// Speech-to-text fallback for browsers without the Web Speech API. Takes a
+// multipart form with the recording as `audio` and a BCP 47 `language`.
+export async function POST(req: Request) {
+  if (!hasValidConsent(req)) {
+    return errorResponse(403, { code: 'consent_required', message: 'Accept the current terms before using dictation.' });
+  }
+
+  const declaredLength = Number(req.headers.get('Content-Length'));
+  if (declaredLength > MAX_AUDIO_BYTES + 64 * 1024) {
+    return errorResponse(413, { code: 'payload_too_large', message: 'The recording is too long to transcribe.' });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return errorResponse(400, { code: 'invalid_request', message: 'Request body must be multipart form data.' });
+  }
+
+  const parsed = transcriptionRequestSchema.safeParse({ audio: form.get('audio'), language: form.get('language') });
+  if (!parsed.success) {
+    const { issues } = parsed.error;
+    const tooLarge = issues.some(isTooLargeIssue);
+    return errorResponse(tooLarge ? 413 : 400, {
+      code: tooLarge ? 'payload_too_large' : 'invalid_request',
+      message: issues[0].message,
+    });
+  }
+  const { audio, language } = parsed.data;
+
+  try {
+    const apiRes = await transcribeAudio({
+      audio: Buffer.from(await audio.arrayBuffer()).toString('base64'),
+      // Drop codec parameters, e.g. "audio/webm;codecs=opus"
+      mimeType: audio.type.split(';')[0],
+      language,
+      signal: req.signal,
+    });
+    const upstream = upstreamTranscriptionSchema.safeParse(await apiRes.json().catch(() => null));
+    if (!upstream.success) {
+      return errorResponse(502, { code: 'bad_response', message: 'The backend sent a response that could not be read.' });
+    }
+    return Response.json({ text: upstream.data.text.trim() } satisfies TranscriptionResult);
+  } catch (err) {
+    console.error(err);
+    if (err instanceof UpstreamError) {
+      return errorResponse(statusForUpstreamCode(err.code), { code: err.code, message: err.message });
+    }
+    return errorResponse(500, { code: 'internal_error', message: 'Something went wrong while transcribing.' });
+  }
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2, TriangleAlert } from "lucide-react"
+
+import { ConsentGate } from "@/components/consent-gate"
+import { DrugPicker } from "@/components/interactions/drug-picker"
+import { InteractionMatrix } from "@/components/interactions/interaction-matrix"
+import { Button } from "@/components/ui/button"
+import { useConsent } from "@/hooks/use-consent"
+import { useMedicationList } from "@/hooks/use-medication-list"
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import { readChatError, type ChatErrorBody } from "@/lib/chat-protocol"
+import { CONSENT_HEADER, toConsentToken } from "@/lib/consent"
+import {
+  COMMON_DRUGS,
+  MIN_INTERACTION_DRUGS,
+  type InteractionRequestBody,
+  type InteractionResult,
+} from "@/lib/drug-interactions"
+
+export default function InteractionChecker() {
+  const medicationList = useMedicationList()
+  const consent = useConsent()
+  const [drugs, setDrugs] = useState<string[]>([])
+  const [result, setResult] = useState<InteractionResult | null>(null)
+  const [error, setError] = useState<ChatErrorBody["error"] | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    // Follow the theme chosen on the chat page
+    document.documentElement.classList.toggle("dark", localStorage.getItem("theme") === "dark")
+    return () => abortRef.current?.abort()
+  }, [])
+
+  const myDrugs = medicationList.medications.map((medication) => medication.name)
+  const suggestions = [
+    { heading: "My medications", drugs: myDrugs },
+    {
+      heading: "Common drugs",
+      drugs: COMMON_DRUGS.filter((drug) => !myDrugs.some((mine) => mine.toLowerCase() === drug.toLowerCase())),
+    },
+  ]
+
+  const check = async () => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsChecking(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/interactions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(consent.consent && { [CONSENT_HEADER]: toConsentToken(consent.consent) }),
+        },
+        body: JSON.stringify({ drugs } satisfies InteractionRequestBody),
+        signal: controller.signal,
+      })
+      if (!response.ok) {
+        const body = await readChatError(response)
+        if (body?.code === "consent_required") consent.revoke()
+        setError(body ?? { code: "backend_error", message: `Request failed: ${response.status}` })
+        return
+      }
+      setResult((await response.json()) as InteractionResult)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error("Interaction check failed:", err)
+      setError({ code: "network_error", message: "Could not reach /api/interactions" })
+    } finally {
+      if (abortRef.current === controller) setIsChecking(false)
+    }
+  }
+
+  const changeDrugs = (next: string[]) => {
+    setDrugs(next)
+    // A matrix for a different selection would be misleading
+    setResult(null)
+    setError(null)
+  }
+
+  const errorCopy = error && CHAT_ERROR_COPY[error.code]
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" aria-label="Back to chat">
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+        </Button>
+        <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Interaction checker</h1>
+      </div>
+
+      <main className="max-w-5xl mx-auto p-4 space-y-6">
+        <section className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Pick {MIN_INTERACTION_DRUGS} or more drugs to see how each pair interacts.
+          </p>
+          <DrugPicker selected={drugs} onChange={changeDrugs} suggestions={suggestions} disabled={isChecking} />
+          <Button
+            onClick={check}
+            disabled={drugs.length < MIN_INTERACTION_DRUGS || isChecking}
+            className="bg-blue-500 hover:bg-blue-600"
+          >
+            {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Check interactions
+          </Button>
+        </section>
+
+        {error && errorCopy && (
+          <div className="flex gap-3 rounded-lg border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950 p-4 text-sm">
+            <TriangleAlert className="w-5 h-5 flex-shrink-0 text-red-600" />
+            <div>
+              <div className="font-medium text-red-900 dark:text-red-200">{errorCopy.title}</div>
+              <p className="text-red-800 dark:text-red-300">
+                {error.code === "invalid_request" ? error.message : errorCopy.description}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <section className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+            <InteractionMatrix result={result} />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              For information only. Ask a pharmacist or doctor before starting, stopping or combining medicines.
+            </p>
+          </section>
+        )}
+      </main>
+      <ConsentGate consent={consent} />
+    </div>
+  )
+}
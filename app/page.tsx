@@ -3,30 +3,95 @@
 import type React from "react"
 
 import { useState, useRef, useEffect } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
-import { Send, Bot, User, X, Paperclip } from "lucide-react"
-import ReactMarkdown from "react-markdown"
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import { ChatSidebar } from "@/components/chat/chat-sidebar"
+import { BranchSwitcher } from "@/components/chat/branch-switcher"
+import { SourcesList } from "@/components/chat/citations"
+import { CompareAnswersDialog } from "@/components/chat/compare-answers-dialog"
+import { EditMessageForm } from "@/components/chat/edit-message-form"
+import { ErrorBubble } from "@/components/chat/error-bubble"
+import { ExportMenu } from "@/components/chat/export-menu"
+import { MarkdownAnswer } from "@/components/chat/markdown-answer"
+import { PrescriptionCard } from "@/components/chat/prescription-card"
+import { PrintableTranscript } from "@/components/chat/printable-transcript"
+import { ReadAloudControls, SpeechSettingsMenu } from "@/components/chat/read-aloud"
+import { ScheduleBuilderDialog } from "@/components/chat/schedule-builder-dialog"
+import { ShareDialog } from "@/components/chat/share-dialog"
+import { RecordingIndicator, VoiceInputButton } from "@/components/chat/voice-input"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { MedicationPanel } from "@/components/chat/medication-panel"
+import { ProfileSwitcher } from "@/components/chat/profile-switcher"
+import { RedFlagBanner } from "@/components/chat/red-flag-banner"
+import { ConsentGate } from "@/components/consent-gate"
+import { useConsent } from "@/hooks/use-consent"
+import { useConversations } from "@/hooks/use-conversations"
+import { useMedicationList } from "@/hooks/use-medication-list"
+import { usePatientProfiles } from "@/hooks/use-patient-profiles"
+import { useSpeechOutput } from "@/hooks/use-speech-output"
+import { useVoiceInput } from "@/hooks/use-voice-input"
+import { Send, Bot, User, X, Paperclip, Square, Pencil, RefreshCw, GitCompare, CalendarClock, Blend } from "lucide-react"
 import { Moon, Sun } from "lucide-react"
-
-interface Message {
-  id: string
-  role: "user" | "assistant"
-  content: string
-  images?: string[]
-  timestamp: Date
-}
+import { dataUrlBytes, IMAGE_TURN_BUDGET, ImageProcessingError, preprocessImage } from "@/lib/image-processing"
+import { ChatRequestError } from "@/lib/chat-errors"
+import { readChatError, readChatEvents, toChatImage, type ChatRequestBody } from "@/lib/chat-protocol"
+import { MAX_HISTORY_TURNS, MAX_IMAGES_PER_REQUEST } from "@/lib/chat-request-schema"
+import type { Message } from "@/lib/chat-types"
+import { CONSENT_HEADER, toConsentToken } from "@/lib/consent"
+import { ConversationImportError, readConversationFile } from "@/lib/conversation-import"
+import { newConversationId, titleFromMessages } from "@/lib/conversation-store"
+import { toMedicationContext } from "@/lib/medication-list"
+import { toPatientContext } from "@/lib/patient-profile"
+import { appendTranscript } from "@/lib/voice-input"
+import { detectRedFlags } from "@/lib/red-flags"
+import { DEFAULT_PRESCRIPTION_PROMPT, type PrescriptionResult } from "@/lib/prescription"
+import {
+  activePath,
+  appendMessage,
+  EMPTY_TREE,
+  fromLinear,
+  pathTo,
+  removeMessage,
+  selectBranch,
+  sessionOf,
+  siblingsOf,
+  updateMessage,
+  type MessageTree,
+} from "@/lib/message-tree"
 
 export default function ChatApp() {
-  const [messages, setMessages] = useState<Message[]>([])
+  const [tree, setTree] = useState<MessageTree>(EMPTY_TREE)
+  const messages = activePath(tree)
+  const sessionId = sessionOf(messages)
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
-  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [isResponding, setIsResponding] = useState(false)
+  // Key of the saved conversation; the backend session can change per branch
+  const [conversationId, setConversationId] = useState<string | null>(null)
   const [selectedImages, setSelectedImages] = useState<string[]>([])
+  const [isProcessingImages, setIsProcessingImages] = useState(false)
+  const [imageError, setImageError] = useState<string | null>(null)
+  const [requestError, setRequestError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [comparing, setComparing] = useState<Message[] | null>(null)
+  const [schedulingFor, setSchedulingFor] = useState<PrescriptionResult | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const savedTreeRef = useRef<MessageTree | null>(null)
+  const { conversations, load, save, add, rename, remove } = useConversations()
+  const medicationList = useMedicationList()
+  const patientProfiles = usePatientProfiles()
+  const consent = useConsent()
+  const voice = useVoiceInput({
+    onTranscript: (text) => setInput((prev) => appendTranscript(prev, text)),
+    consent: consent.consent,
+  })
+  const speech = useSpeechOutput()
 
   const [isDarkMode, setIsDarkMode] = useState(false)
 
@@ -56,354 +121,757 @@ export default function ChatApp() {
     setIsDarkMode(!isDarkMode)
   }
 
+  // Save the conversation once each turn settles; skip what was just loaded
+  useEffect(() => {
+    if (!conversationId || isResponding || tree.nodes.length === 0) return
+    if (tree === savedTreeRef.current) return
+    savedTreeRef.current = tree
+    save(conversationId, tree).catch((error) => console.error("Failed to save conversation:", error))
+  }, [conversationId, isResponding, tree, save])
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [tree])
+
+  // Compress, strip metadata from and attach images, within the turn's byte
+  // budget and image count
+  const addImageFiles = async (files: File[]) => {
+    const allImages = files.filter((file) => file.type.startsWith("image/"))
+    if (allImages.length === 0) return
+    const images = allImages.slice(0, Math.max(0, MAX_IMAGES_PER_REQUEST - selectedImages.length))
+
+    setImageError(
+      images.length < allImages.length ? `At most ${MAX_IMAGES_PER_REQUEST} images can be sent with one message.` : null
+    )
+    if (images.length === 0) return
+    setIsProcessingImages(true)
+    let usedBytes = selectedImages.reduce((total, image) => total + dataUrlBytes(image), 0)
+    try {
+      for (const file of images) {
+        try {
+          const processed = await preprocessImage(file, IMAGE_TURN_BUDGET - usedBytes)
+          usedBytes += processed.bytes
+          setSelectedImages((prev) => [...prev, processed.dataUrl])
+        } catch (error) {
+          console.error("Image processing failed:", error)
+          setImageError(error instanceof ImageProcessingError ? error.message : "This image could not be attached.")
+        }
+      }
+    } finally {
+      setIsProcessingImages(false)
+    }
+  }
 
   // Handle file selection
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
     if (files) {
-      Array.from(files).forEach((file) => {
-        if (file.type.startsWith("image/")) {
-          const reader = new FileReader()
-          reader.onload = (e) => {
-            const base64 = e.target?.result as string
-            setSelectedImages((prev) => [...prev, base64])
-          }
-          reader.readAsDataURL(file)
-        }
-      })
+      addImageFiles(Array.from(files))
     }
+    // Allow picking the same file again after removing it
+    event.target.value = ""
   }
 
   // Handle paste events for images
   const handlePaste = (event: React.ClipboardEvent) => {
     const items = event.clipboardData?.items
     if (items) {
-      Array.from(items).forEach((item) => {
-        if (item.type.startsWith("image/")) {
-          const file = item.getAsFile()
-          if (file) {
-            const reader = new FileReader()
-            reader.onload = (e) => {
-              const base64 = e.target?.result as string
-              setSelectedImages((prev) => [...prev, base64])
-            }
-            reader.readAsDataURL(file)
-          }
-        }
-      })
+      const files = Array.from(items)
+        .filter((item) => item.type.startsWith("image/"))
+        .map((item) => item.getAsFile())
+        .filter((file) => file !== null)
+      addImageFiles(files)
     }
   }
 
   // Remove selected image
   const removeImage = (index: number) => {
     setSelectedImages((prev) => prev.filter((_, i) => i !== index))
+    setImageError(null)
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if ((!input.trim() && selectedImages.length === 0) || isLoading) return
-
-    const userMessage: Message = {
-      id: `user_${Date.now()}`,
-      role: "user",
-      content: input.trim() || "Please analyze this prescription of drugs",
-      images: selectedImages.length > 0 ? [...selectedImages] : undefined,
+  // Sends one user turn to /api/chat and streams the answer into `messages`.
+  // The turn continues the backend session of the answers before it. With
+  // `replay`, those turns are sent as history to start a new session instead:
+  // in place of an expired one, or for a new branch that the old session's
+  // memory must not influence. Branches whose answers do not record their
+  // session are always replayed.
+  const sendTurn = async (userMessage: Message, { replay = false } = {}) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsLoading(true)
+    setIsResponding(true)
+    if (!conversationId) setConversationId(newConversationId())
+
+    const earlier = pathTo(tree, userMessage.parentId ?? null)
+    const branchSession = sessionOf(earlier)
+    const startSession = replay || (!branchSession && earlier.length > 0)
+
+    const assistantMessage: Message = {
+      id: `assistant_${Date.now()}`,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: "",
       timestamp: new Date(),
     }
-
-    setMessages((prev) => [...prev, userMessage])
-    setInput("")
-    setSelectedImages([])
-    setIsLoading(true)
+    let assistantText = "";
 
     try {
-      var image_data = null;
-      if (userMessage.images && userMessage.images.length > 0) {
-        image_data = userMessage.images[0];
+      const images = (userMessage.images ?? []).map(toChatImage).filter((image) => image !== null)
+      const body: ChatRequestBody = {
+        query: userMessage.content,
+        sessionId: startSession ? null : branchSession,
+        images,
+        ...(startSession && {
+          history: earlier
+            .filter((msg) => !msg.error && msg.content)
+            .slice(-MAX_HISTORY_TURNS)
+            .map(({ role, content }) => ({ role, content })),
+        }),
+        ...(medicationList.attachToChat &&
+          medicationList.medications.length > 0 && { medications: toMedicationContext(medicationList.medications) }),
+        ...(patientProfiles.activeProfile && { patientProfile: toPatientContext(patientProfiles.activeProfile) }),
       }
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ query: input.trim() || "Please analyze this prescription of drugs", sessionId, img_base64: image_data}),
-      })
-
-      if (!response.ok) {
-        throw new Error("Failed to get response")
+      let response: Response
+      try {
+        response = await fetch("/api/chat", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(consent.consent && { [CONSENT_HEADER]: toConsentToken(consent.consent) }),
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        })
+      } catch (error) {
+        if (controller.signal.aborted) throw error
+        throw new ChatRequestError("network_error", "Could not reach /api/chat")
       }
 
-      // Get interaction ID from response headers
-      const responseSessionId = response.headers.get("X-Interaction-ID");
-      if (responseSessionId && !sessionId) {
-        setSessionId(responseSessionId);
+      if (!response.ok) {
+        const error = await readChatError(response)
+        if (error?.code === "invalid_request" || error?.code === "invalid_json" || error?.code === "consent_required") {
+          // Put the turn back in the composer so it can be fixed and resent
+          setTree((prev) => removeMessage(prev, userMessage.id))
+          setInput(userMessage.content)
+          setSelectedImages(userMessage.images ?? [])
+          setRequestError(error.message)
+          // The stored consent is stale; ask again
+          if (error.code === "consent_required") consent.revoke()
+          return
+        }
+        throw new ChatRequestError(error?.code ?? "internal_error", error?.message ?? `HTTP ${response.status}`)
       }
 
-      const reader = response.body?.getReader()
-      if (!reader) throw new Error("No reader available")
-
-      const assistantMessage: Message = {
-        id: `assistant_${Date.now()}`,
-        role: "assistant",
-        content: "",
-        timestamp: new Date(),
-      }
+      // Follow-ups on this branch go to the session that answered
+      assistantMessage.sessionId = response.headers.get("X-Interaction-ID") ?? body.sessionId ?? undefined
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (!response.body) throw new ChatRequestError("bad_response", "No response body available")
 
-      const decoder = new TextDecoder();
-      let assistantText = "";
+      for await (const event of readChatEvents(response.body)) {
+        if (event.type === "ping") continue
+        if (event.type === "error") throw new ChatRequestError(event.code, event.message)
+        if (event.type === "done") {
+          if (userMessage.images) {
+            setTree((prev) => updateMessage(prev, userMessage.id, { imagesConsidered: event.imagesConsidered }));
+          }
+          if (event.prescription && assistantText) {
+            setTree((prev) => updateMessage(prev, assistantMessage.id, { prescription: event.prescription }));
+          }
+          if (event.sources && assistantText) {
+            setTree((prev) => updateMessage(prev, assistantMessage.id, { sources: event.sources }));
+          }
+          if (assistantText) speech.announce(assistantMessage.id, assistantText)
+          break
+        }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-  
-        assistantText += decoder.decode(value, { stream: true });
+        // The bubble only appears once there is text to show
+        if (!assistantText) setTree((prev) => appendMessage(prev, assistantMessage));
+        assistantText += event.text;
         setIsLoading(false);
         // Update the assistant message in place
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id ? { ...msg, content: assistantText } : msg
-                )
-              );
+        setTree((prev) => updateMessage(prev, assistantMessage.id, { content: assistantText }));
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before Stop was pressed
+        setTree((prev) =>
+          assistantText
+            ? updateMessage(prev, assistantMessage.id, { stopped: true })
+            : appendMessage(prev, { ...assistantMessage, stopped: true })
+        )
+        return
+      }
       console.error("Error:", error);
-      setMessages((prev) => [
-        ...prev,
-        {
+      const code = error instanceof ChatRequestError ? error.code : "bad_response"
+      setTree((prev) =>
+        appendMessage(prev, {
           id: `error_${Date.now()}`,
+          parentId: userMessage.id,
           role: "assistant",
-          content: "Sorry, but I could not find any relevant information for your query at the moment. Please consult a medical professional for accurate advice.",
+          content: "",
+          error: { code, retryOf: userMessage.id },
           timestamp: new Date(),
-        },
-      ]);
+        })
+      );
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setIsLoading(false);
+        setIsResponding(false)
+      }
       inputRef.current?.focus();
     }
   };
-  
+
+  const stopResponse = () => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setIsLoading(false)
+    setIsResponding(false)
+    inputRef.current?.focus()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if ((!input.trim() && selectedImages.length === 0) || isResponding || isProcessingImages) return
+    // Whatever is still being dictated would land in the next message
+    voice.cancel()
+
+    const userMessage: Message = {
+      id: `user_${Date.now()}`,
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: "user",
+      content: input.trim() || DEFAULT_PRESCRIPTION_PROMPT,
+      images: selectedImages.length > 0 ? [...selectedImages] : undefined,
+      timestamp: new Date(),
+    }
+
+    setTree((prev) => appendMessage(prev, userMessage))
+    setInput("")
+    setSelectedImages([])
+    setImageError(null)
+    setRequestError(null)
+    await sendTurn(userMessage)
+  };
+
+  // Drop the failed attempt and resend the same user turn
+  const retryTurn = async (errorMessage: Message) => {
+    const userMessage = messages.find((msg) => msg.id === errorMessage.error?.retryOf)
+    if (!userMessage || isResponding) return
+
+    setTree((prev) => removeMessage(prev, errorMessage.id))
+    await sendTurn(userMessage, { replay: errorMessage.error?.code === "session_expired" })
+  }
+
+  // Rewrite an earlier user turn as a new branch and answer it again
+  const editTurn = async (original: Message, content: string) => {
+    if (isResponding || !content.trim()) return
+
+    const userMessage: Message = {
+      id: `user_${Date.now()}`,
+      parentId: original.parentId ?? null,
+      role: "user",
+      content: content.trim(),
+      images: original.images,
+      timestamp: new Date(),
+    }
+
+    setTree((prev) => appendMessage(prev, userMessage))
+    setRequestError(null)
+    await sendTurn(userMessage, { replay: true })
+  }
+
+  // Ask again for the same turn; the new answer becomes another version.
+  // A fresh session keeps the earlier answer out of the new one's context.
+  const regenerateAnswer = async (message: Message) => {
+    const userMessage = tree.nodes.find((msg) => msg.id === message.parentId)
+    if (!userMessage || isResponding) return
+    await sendTurn(userMessage, { replay: true })
+  }
+
+  const answerVersions = (message: Message) =>
+    siblingsOf(tree, message).filter((msg) => msg.role === "assistant" && !msg.error && msg.content)
+
+  const switchBranch = (message: Message, offset: number) => {
+    const siblings = siblingsOf(tree, message)
+    const target = siblings[siblings.indexOf(message) + offset]
+    if (target && !isResponding) setTree((prev) => selectBranch(prev, target))
+  }
 
   const startNewChat = () => {
-    setMessages([])
-    setSessionId(null)
-        inputRef.current?.focus()
+    stopResponse()
+    speech.stop()
+    setTree(EMPTY_TREE)
+    setConversationId(null)
+    inputRef.current?.focus()
+  }
+
+  // Restore a saved conversation; its branches resume their backend sessions
+  const selectConversation = async (id: string) => {
+    if (id === conversationId) return
+    try {
+      const conversation = await load(id)
+      if (!conversation) return
+      stopResponse()
+      speech.stop()
+      const restored = conversation.selection
+        ? { nodes: conversation.messages, selection: conversation.selection }
+        : fromLinear(conversation.messages)
+      savedTreeRef.current = restored
+      setTree(restored)
+      setConversationId(conversation.id)
+      setRequestError(null)
+      inputRef.current?.focus()
+    } catch (error) {
+      console.error("Failed to open conversation:", error)
+    }
+  }
+
+  // Open a conversation exported with the JSON format, here or elsewhere.
+  // Each import is saved as a new conversation, so re-importing an older
+  // export never overwrites turns added here since.
+  const importConversation = async (file: File) => {
+    if (isResponding) return
+    try {
+      const imported = await readConversationFile(file)
+      const id = newConversationId()
+      const now = new Date()
+      await add({
+        id,
+        title: imported.title,
+        messages: imported.tree.nodes,
+        selection: imported.tree.selection,
+        createdAt: imported.tree.nodes[0]?.timestamp ?? now,
+        updatedAt: now,
+      })
+      speech.stop()
+      savedTreeRef.current = imported.tree
+      setTree(imported.tree)
+      setConversationId(id)
+      setRequestError(null)
+      inputRef.current?.focus()
+    } catch (error) {
+      console.error("Import failed:", error)
+      setRequestError(
+        error instanceof ConversationImportError ? `Import failed: ${error.message}` : "Import failed: the file could not be read."
+      )
+    }
+  }
+
+  // Dropped conversation files are imported, images are attached
+  const handleDrop = (event: React.DragEvent) => {
+    const files = Array.from(event.dataTransfer.files)
+    if (files.length === 0) return
+    event.preventDefault()
+    const conversationFile = files.find((file) => file.type === "application/json" || file.name.endsWith(".json"))
+    if (conversationFile) importConversation(conversationFile)
+    else addImageFiles(files)
+  }
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await remove(id)
+      if (id === conversationId) startNewChat()
+    } catch (error) {
+      console.error("Failed to delete conversation:", error)
+    }
+  }
+
+  const exportContext = {
+    sessionId,
+    title: conversations.find((conversation) => conversation.id === conversationId)?.title ?? titleFromMessages(messages),
   }
 
   return (
-    <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900">
-      {/* Header */}
-      <div className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex justify-between items-center">
-        <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Medi Assist</h1>
-        <div className="flex items-center space-x-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={toggleTheme}
-            className="bg-transparent border-gray-300 dark:border-gray-600"
-          >
-            {isDarkMode ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
-          </Button>
-          <Button
-            variant="outline"
-            onClick={startNewChat}
-            className="text-sm bg-transparent border-gray-300 dark:border-gray-600"
-          >
-            New Chat
-          </Button>
-        </div>
-      </div>
-
-      {/* Messages Container */}
-      <div className="flex-1 overflow-y-auto px-4 py-6">
-        <div className="max-w-4xl mx-auto space-y-6">
-          {messages.length === 0 && (
-            <div className="text-center text-gray-500 dark:text-gray-400 mt-20">
-              <Bot className="w-12 h-12 mx-auto mb-4 text-gray-400 dark:text-gray-500" />
-              <h2 className="text-xl font-medium mb-2 text-gray-800 dark:text-gray-200">How can I help you today?</h2>
-              <p className="text-sm">Start a conversation by typing your query below.</p>
+    <SidebarProvider className="print:hidden">
+      <ChatSidebar
+        conversations={conversations}
+        activeId={conversationId}
+        onSelect={selectConversation}
+        onNewChat={startNewChat}
+        onImport={importConversation}
+        onRename={(id, title) => rename(id, title).catch((error) => console.error("Rename failed:", error))}
+        onDelete={deleteConversation}
+      />
+      <SidebarInset>
+        <div
+          className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900"
+          onDragOver={(e) => e.dataTransfer.types.includes("Files") && e.preventDefault()}
+          onDrop={handleDrop}
+        >
+          {/* Header */}
+          <div className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger />
+              <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Medi Assist</h1>
             </div>
-          )}
-
-          {messages.map((message) => (
-            <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
-              <div className={`flex max-w-[80%] ${message.role === "user" ? "flex-row-reverse" : "flex-row"}`}>
-                {/* Avatar */}
-                <div className={`flex-shrink-0 ${message.role === "user" ? "ml-3" : "mr-3"}`}>
-                  <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                      message.role === "user" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-600"
-                    }`}
-                  >
-                    {message.role === "user" ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
-                  </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" className="bg-transparent border-gray-300 dark:border-gray-600" asChild>
+                <Link href="/interactions">
+                  <Blend className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Interactions</span>
+                </Link>
+              </Button>
+              <ExportMenu tree={tree} messages={messages} context={exportContext} disabled={isResponding} />
+              <ShareDialog
+                messages={messages}
+                conversationId={conversationId}
+                context={exportContext}
+                consent={consent.consent}
+                disabled={isResponding}
+              />
+              <ProfileSwitcher profiles={patientProfiles} />
+              <MedicationPanel list={medicationList} />
+              <SpeechSettingsMenu speech={speech} />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={toggleTheme}
+                className="bg-transparent border-gray-300 dark:border-gray-600"
+              >
+                {isDarkMode ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={startNewChat}
+                className="text-sm bg-transparent border-gray-300 dark:border-gray-600"
+              >
+                New Chat
+              </Button>
+            </div>
+          </div>
+
+          {/* Messages Container */}
+          <div className="flex-1 overflow-y-auto px-4 py-6">
+            <div className="max-w-4xl mx-auto space-y-6">
+              {messages.length === 0 && (
+                <div className="text-center text-gray-500 dark:text-gray-400 mt-20">
+                  <Bot className="w-12 h-12 mx-auto mb-4 text-gray-400 dark:text-gray-500" />
+                  <h2 className="text-xl font-medium mb-2 text-gray-800 dark:text-gray-200">How can I help you today?</h2>
+                  <p className="text-sm">Start a conversation by typing your query below.</p>
                 </div>
+              )}
+
+              {messages.map((message, index) => (
+                <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+                  <div className={`flex max-w-[80%] ${message.role === "user" ? "flex-row-reverse" : "flex-row"}`}>
+                    {/* Avatar */}
+                    <div className={`flex-shrink-0 ${message.role === "user" ? "ml-3" : "mr-3"}`}>
+                      <div
+                        className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                          message.role === "user" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-600"
+                        }`}
+                      >
+                        {message.role === "user" ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+                      </div>
+                    </div>
 
-                {/* Message Content */}
-                <Card
-                  className={`px-4 py-3 ${
-                    message.role === "user"
-                      ? "bg-blue-500 text-white dark:bg-blue-600"
-                      : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
-                  }`}
-                >
-                  {/* Images */}
-                  {message.images && message.images.length > 0 && (
-                    <div className="mb-3 grid grid-cols-2 gap-2">
-                      {message.images.map((image, index) => (
-                        <img
-                          key={index}
-                          src={image || "/placeholder.svg"}
-                          alt={`Uploaded image ${index + 1}`}
-                          className="rounded-lg max-w-full h-auto max-h-48 object-cover"
+                    {/* Message Content */}
+                    <div className={`flex min-w-0 flex-col gap-1 ${message.role === "user" ? "items-end" : "items-start"}`}>
+                      {editingId === message.id ? (
+                        <EditMessageForm
+                          initialContent={message.content}
+                          onCancel={() => setEditingId(null)}
+                          onSubmit={(content) => {
+                            setEditingId(null)
+                            editTurn(message, content)
+                          }}
                         />
-                      ))}
-                    </div>
-                  )}
-
-                  {/* Text Content */}
-                  {message.role === "user" ? (
-                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                  ) : (
-                    <div className="prose prose-sm max-w-none dark:prose-invert">
-                      <ReactMarkdown
-                        components={{
-                          code({ node, inline, className, children, ...props }) {
-                            return inline ? (
-                              <code
-                                className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm font-mono text-gray-800 dark:text-gray-200"
-                                {...props}
-                              >
-                                {children}
-                              </code>
-                            ) : (
-                              <pre className="bg-gray-900 dark:bg-gray-950 text-gray-100 p-4 rounded-lg overflow-x-auto my-2">
-                                <code className="font-mono text-sm" {...props}>
-                                  {children}
-                                </code>
-                              </pre>
-                            )
-                          },
-                        }}
-                      >
-                        {message.content}
-                      </ReactMarkdown>
+                      ) : message.error ? (
+                        <ErrorBubble
+                          code={message.error.code}
+                          onRetry={() => retryTurn(message)}
+                          retryDisabled={isResponding}
+                        />
+                      ) : (
+                        <Card
+                          className={`px-4 py-3 ${
+                            message.role === "user"
+                              ? "bg-blue-500 text-white dark:bg-blue-600"
+                              : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+                          }`}
+                        >
+                          {/* Images */}
+                          {message.images && message.images.length > 0 && (
+                            <div className="mb-3 grid grid-cols-2 gap-2">
+                              {message.images.map((image, index) => {
+                                const skipped = message.imagesConsidered && !message.imagesConsidered.includes(index)
+                                return (
+                                  <div key={index} className="relative">
+                                    <img
+                                      src={image || "/placeholder.svg"}
+                                      alt={`Uploaded image ${index + 1}`}
+                                      className={`rounded-lg max-w-full h-auto max-h-48 object-cover ${skipped ? "opacity-40" : ""}`}
+                                    />
+                                    {skipped && (
+                                      <span className="absolute bottom-1 left-1 rounded bg-black/70 px-1.5 py-0.5 text-[10px] text-white">
+                                        Not analyzed
+                                      </span>
+                                    )}
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          )}
+                          {message.images && message.imagesConsidered && (
+                            <p className="mb-2 text-xs opacity-80">
+                              {message.imagesConsidered.length === message.images.length
+                                ? `All ${message.images.length} image${message.images.length > 1 ? "s" : ""} analyzed`
+                                : `Analyzed ${message.imagesConsidered.length} of ${message.images.length} images (${
+                                    message.imagesConsidered.map((i) => i + 1).join(", ") || "none"
+                                  })`}
+                            </p>
+                          )}
+                          {message.images && message.images.length > 1 && message.imagesConsidered === null && (
+                            <p className="mb-2 text-xs opacity-80">
+                              The assistant did not report which images it analyzed; it may have used only the first.
+                            </p>
+                          )}
+
+                          {/* Text Content */}
+                          {message.role === "user" ? (
+                            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                          ) : (
+                            <div className="prose prose-sm max-w-none dark:prose-invert">
+                              {message.prescription ? (
+                                <>
+                                  <PrescriptionCard
+                                    result={message.prescription}
+                                    actions={
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2 text-xs"
+                                        onClick={() => setSchedulingFor(message.prescription ?? null)}
+                                      >
+                                        <CalendarClock className="w-3 h-3 mr-1" />
+                                        Build schedule
+                                      </Button>
+                                    }
+                                  />
+                                  <Collapsible>
+                                    <CollapsibleTrigger className="not-prose mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                                      Show full answer
+                                    </CollapsibleTrigger>
+                                    <CollapsibleContent>
+                                      <MarkdownAnswer messageId={message.id} content={message.content} sources={message.sources} />
+                                    </CollapsibleContent>
+                                  </Collapsible>
+                                </>
+                              ) : (
+                                <MarkdownAnswer messageId={message.id} content={message.content} sources={message.sources} />
+                              )}
+                              {message.stopped && (
+                                <p className="not-prose mt-2 text-xs italic text-gray-500 dark:text-gray-400">Response stopped</p>
+                              )}
+                            </div>
+                          )}
+                        </Card>
+                      )}
+                      {message.sources && message.sources.length > 0 && <SourcesList messageId={message.id} sources={message.sources} />}
+                      {editingId !== message.id && (
+                        <div className="flex items-center gap-1">
+                          <BranchSwitcher
+                            index={siblingsOf(tree, message).indexOf(message)}
+                            count={siblingsOf(tree, message).length}
+                            onChange={(offset) => switchBranch(message, offset)}
+                            disabled={isResponding}
+                          />
+                          {message.role === "user" && !isResponding && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-gray-500 dark:text-gray-400"
+                              onClick={() => setEditingId(message.id)}
+                              aria-label="Edit message"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </Button>
+                          )}
+                          {message.role === "assistant" && !message.error && !(isResponding && index === messages.length - 1) && (
+                            <ReadAloudControls speech={speech} message={message} />
+                          )}
+                          {message.role === "assistant" && !message.error && !isResponding && index === messages.length - 1 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-gray-500 dark:text-gray-400"
+                              onClick={() => regenerateAnswer(message)}
+                              aria-label="Regenerate answer"
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                            </Button>
+                          )}
+                          {message.role === "assistant" && answerVersions(message).length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-gray-500 dark:text-gray-400"
+                              onClick={() => setComparing(answerVersions(message))}
+                              aria-label="Compare answers"
+                            >
+                              <GitCompare className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {message.role === "user" && detectRedFlags(message.content).length > 0 && (
+                        <RedFlagBanner categories={detectRedFlags(message.content)} />
+                      )}
                     </div>
-                  )}
-                </Card>
-              </div>
-            </div>
-          ))}
-
-          {isLoading && (
-            <div className="flex justify-start">
-              <div className="flex flex-row">
-                <div className="flex-shrink-0 mr-3">
-                  <div className="w-8 h-8 rounded-full flex items-center justify-center bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
-                    <Bot className="w-4 h-4" />
                   </div>
                 </div>
-                <Card className="px-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"></div>
-                    <div
-                      className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"
-                      style={{ animationDelay: "0.1s" }}
-                    ></div>
-                    <div
-                      className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"
-                      style={{ animationDelay: "0.2s" }}
-                    ></div>
+              ))}
+
+              {isLoading && (
+                <div className="flex justify-start">
+                  <div className="flex flex-row">
+                    <div className="flex-shrink-0 mr-3">
+                      <div className="w-8 h-8 rounded-full flex items-center justify-center bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        <Bot className="w-4 h-4" />
+                      </div>
+                    </div>
+                    <Card className="px-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                      <div className="flex space-x-1">
+                        <div className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"></div>
+                        <div
+                          className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"
+                          style={{ animationDelay: "0.1s" }}
+                        ></div>
+                        <div
+                          className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce"
+                          style={{ animationDelay: "0.2s" }}
+                        ></div>
+                      </div>
+                    </Card>
                   </div>
-                </Card>
-              </div>
+                </div>
+              )}
+
+              <div ref={messagesEndRef} />
             </div>
-          )}
+          </div>
+
+          {/* Input Area */}
+          <div className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 px-4 py-4">
+            <div className="max-w-4xl mx-auto">
+              {/* Image Previews */}
+              {selectedImages.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-2">
+                  {selectedImages.map((image, index) => (
+                    <div key={index} className="relative">
+                      <img
+                        src={image || "/placeholder.svg"}
+                        alt={`Selected image ${index + 1}`}
+                        className="w-16 h-16 object-cover rounded-lg border border-gray-300 dark:border-gray-600"
+                      />
+                      <button
+                        onClick={() => removeImage(index)}
+                        className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center text-xs hover:bg-red-600"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
 
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
-
-      {/* Input Area */}
-      <div className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 px-4 py-4">
-        <div className="max-w-4xl mx-auto">
-          {/* Image Previews */}
-          {selectedImages.length > 0 && (
-            <div className="mb-3 flex flex-wrap gap-2">
-              {selectedImages.map((image, index) => (
-                <div key={index} className="relative">
-                  <img
-                    src={image || "/placeholder.svg"}
-                    alt={`Selected image ${index + 1}`}
-                    className="w-16 h-16 object-cover rounded-lg border border-gray-300 dark:border-gray-600"
+              {(isProcessingImages || imageError || requestError) && (
+                <p
+                  role={imageError || requestError ? "alert" : undefined}
+                  className={`mb-2 text-xs ${imageError || requestError ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`}
+                >
+                  {requestError ?? imageError ?? "Preparing images…"}
+                </p>
+              )}
+
+              <RecordingIndicator voice={voice} />
+
+              <form onSubmit={handleSubmit} className="flex space-x-3">
+                <div className="flex-1 relative">
+                  <Input
+                    ref={inputRef}
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onPaste={handlePaste}
+                    placeholder="Type your message here or paste an image..."
+                    disabled={isLoading}
+                    className="pr-32 py-3 text-sm border-gray-300 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                    autoFocus
                   />
-                  <button
-                    onClick={() => removeImage(index)}
-                    className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center text-xs hover:bg-red-600"
-                  >
-                    <X className="w-3 h-3" />
-                  </button>
+                  <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex space-x-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="p-1 h-8 w-8"
+                    >
+                      <Paperclip className="w-4 h-4" />
+                    </Button>
+                    <VoiceInputButton voice={voice} disabled={isLoading} />
+                  </div>
                 </div>
-              ))}
-            </div>
-          )}
-
-          <form onSubmit={handleSubmit} className="flex space-x-3">
-            <div className="flex-1 relative">
-              <Input
-                ref={inputRef}
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onPaste={handlePaste}
-                placeholder="Type your message here or paste an image..."
-                disabled={isLoading}
-                className="pr-20 py-3 text-sm border-gray-300 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                autoFocus
+                {isResponding ? (
+                  <Button
+                    type="button"
+                    onClick={stopResponse}
+                    aria-label="Stop generating"
+                    className="px-4 py-3 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    type="submit"
+                    disabled={(!input.trim() && selectedImages.length === 0) || isProcessingImages}
+                    className="px-4 py-3 bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-600"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
+              </form>
+
+              {/* Hidden file input */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
               />
-              <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex space-x-1">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="p-1 h-8 w-8"
-                >
-                  <Paperclip className="w-4 h-4" />
-                </Button>
-              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
+                {sessionId ? `Interaction ID: ${sessionId}` : "New conversation"}
+                {medicationList.attachToChat && medicationList.medications.length > 0 && (
+                  <> · Sharing {medicationList.medications.length} medication{medicationList.medications.length > 1 ? "s" : ""}</>
+                )}
+                {patientProfiles.activeProfile && <> · Asking for {patientProfiles.activeProfile.name}</>}
+              </p>
             </div>
-            <Button
-              type="submit"
-              disabled={(!input.trim() && selectedImages.length === 0) || isLoading}
-              className="px-4 py-3 bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-600"
-            >
-              <Send className="w-4 h-4" />
-            </Button>
-          </form>
-
-          {/* Hidden file input */}
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            multiple
-            onChange={handleFileSelect}
-            className="hidden"
-          />
-
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
-            {sessionId ? `Interaction ID: ${sessionId}` : "New conversation"}
-          </p>
+          </div>
         </div>
-      </div>
-    </div>
+      </SidebarInset>
+      <CompareAnswersDialog
+        versions={comparing ?? []}
+        open={comparing !== null}
+        onOpenChange={(open) => !open && setComparing(null)}
+      />
+      {schedulingFor && (
+        <ScheduleBuilderDialog
+          prescription={schedulingFor}
+          open
+          onOpenChange={(open) => !open && setSchedulingFor(null)}
+        />
+      )}
+      <ConsentGate consent={consent} />
+      <PrintableTranscript messages={messages} context={exportContext} />
+    </SidebarProvider>
   )
 }
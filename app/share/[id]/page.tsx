@@ -0,0 +1,115 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Bot, Eye, ImageOff, User } from "lucide-react"
+
+import { SourcesList } from "@/components/chat/citations"
+import { MarkdownAnswer } from "@/components/chat/markdown-answer"
+import { Card } from "@/components/ui/card"
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import { formatTimestamp } from "@/lib/conversation-export"
+import { loadShare } from "@/lib/share-store"
+
+// Shares can be revoked or expire at any time, so never serve a cached copy
+export const dynamic = "force-dynamic"
+
+interface SharePageProps {
+  params: { id: string }
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const share = await loadShare(params.id)
+  return {
+    title: share ? `${share.title} · Medi Assist` : "Medi Assist",
+    // Links are private to whoever holds them
+    robots: { index: false, follow: false },
+    referrer: "no-referrer",
+  }
+}
+
+export default async function SharedConversationPage({ params }: SharePageProps) {
+  const share = await loadShare(params.id)
+  if (!share) notFound()
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3">
+        <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-200">{share.title}</h1>
+        <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <Eye className="w-3 h-3" />
+          Read-only copy shared {formatTimestamp(new Date(share.createdAt))} · expires{" "}
+          {formatTimestamp(new Date(share.expiresAt))}
+        </p>
+      </div>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-6">
+        {share.messages.map((message) => (
+          <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+            <div className={`flex max-w-[80%] ${message.role === "user" ? "flex-row-reverse" : "flex-row"}`}>
+              <div className={`flex-shrink-0 ${message.role === "user" ? "ml-3" : "mr-3"}`}>
+                <div
+                  className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                    message.role === "user"
+                      ? "bg-blue-500 text-white"
+                      : "bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  }`}
+                >
+                  {message.role === "user" ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+                </div>
+              </div>
+              <div className="flex flex-col gap-1 min-w-0">
+                <Card
+                  className={`px-4 py-3 ${
+                    message.role === "user"
+                      ? "bg-blue-500 text-white dark:bg-blue-600"
+                      : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+                  }`}
+                >
+                  {message.images && message.images.length > 0 && (
+                    <div className="mb-3 grid grid-cols-2 gap-2">
+                      {message.images.map((image, index) => (
+                        <img
+                          key={index}
+                          src={image}
+                          alt={`Uploaded image ${index + 1}`}
+                          className="rounded-lg max-w-full h-auto max-h-48 object-cover"
+                        />
+                      ))}
+                    </div>
+                  )}
+                  {message.redactedImages !== undefined && (
+                    <p className="mb-2 flex items-center gap-1 text-xs opacity-80">
+                      <ImageOff className="w-3 h-3" />
+                      {message.redactedImages} image{message.redactedImages > 1 ? "s" : ""} hidden
+                    </p>
+                  )}
+                  {message.error ? (
+                    <p className="text-sm italic">No answer: {CHAT_ERROR_COPY[message.error.code].title}</p>
+                  ) : message.role === "user" ? (
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  ) : (
+                    <div className="prose prose-sm max-w-none dark:prose-invert">
+                      <MarkdownAnswer messageId={message.id} content={message.content} sources={message.sources} />
+                      {message.stopped && (
+                        <p className="not-prose mt-2 text-xs italic text-gray-500 dark:text-gray-400">Response stopped</p>
+                      )}
+                    </div>
+                  )}
+                </Card>
+                {message.sources && message.sources.length > 0 && <SourcesList messageId={message.id} sources={message.sources} />}
+                <span className="text-xs text-gray-500 dark:text-gray-400">{formatTimestamp(new Date(message.timestamp))}</span>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+          Medi Assist provides general information, not medical advice.{" "}
+          <Link href="/" className="underline">
+            Ask your own question
+          </Link>
+        </p>
+      </main>
+    </div>
+  )
+}
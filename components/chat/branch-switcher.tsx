@@ -0,0 +1,45 @@
+"use client"
+
+import { ChevronLeft, ChevronRight } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+
+interface BranchSwitcherProps {
+  index: number
+  count: number
+  onChange: (offset: number) => void
+  disabled?: boolean
+}
+
+// "‹ 1/2 ›" control for flipping between alternate versions of a turn
+export function BranchSwitcher({ index, count, onChange, disabled }: BranchSwitcherProps) {
+  if (count < 2) return null
+
+  return (
+    <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onChange(-1)}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onChange(1)}
+        disabled={disabled || index === count - 1}
+        aria-label="Next version"
+      >
+        <ChevronRight className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import * as React from "react"
+import { FileUp, MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import type { ConversationSummary } from "@/lib/chat-types"
+
+function formatUpdatedAt(date: Date): string {
+  const now = new Date()
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+  }
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    ...(date.getFullYear() !== now.getFullYear() && { year: "numeric" }),
+  })
+}
+
+interface ChatSidebarProps {
+  conversations: ConversationSummary[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onNewChat: () => void
+  // Called with a conversation file exported as JSON
+  onImport: (file: File) => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+export function ChatSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNewChat,
+  onImport,
+  onRename,
+  onDelete,
+}: ChatSidebarProps) {
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const [search, setSearch] = React.useState("")
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = React.useState("")
+
+  const query = search.trim().toLowerCase()
+  const visible = query ? conversations.filter((c) => c.title.toLowerCase().includes(query)) : conversations
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    const title = draftTitle.trim()
+    if (editingId && title) onRename(editingId, title)
+    setEditingId(null)
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onNewChat} className="flex-1 justify-start bg-transparent">
+            <Plus className="w-4 h-4 mr-2" />
+            New Chat
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-transparent"
+            aria-label="Import conversation"
+            title="Import conversation (.json)"
+          >
+            <FileUp className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) onImport(file)
+              e.target.value = ""
+            }}
+          />
+        </div>
+        <SidebarInput
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search conversations"
+          aria-label="Search conversations"
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>History</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {visible.length === 0 && (
+              <p className="px-2 py-4 text-xs text-muted-foreground">
+                {query ? "No conversations match your search." : "Your conversations will appear here."}
+              </p>
+            )}
+            <SidebarMenu>
+              {visible.map((conversation) => (
+                <SidebarMenuItem key={conversation.id}>
+                  {editingId === conversation.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename()
+                        if (e.key === "Escape") setEditingId(null)
+                      }}
+                      aria-label="Conversation title"
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        isActive={conversation.id === activeId}
+                        onClick={() => onSelect(conversation.id)}
+                        className="h-auto py-2"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate">{conversation.title}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {formatUpdatedAt(conversation.updatedAt)}
+                          </span>
+                        </div>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label="Conversation actions">
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => startRename(conversation)}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onSelect={() => onDelete(conversation.id)}
+                            className="text-red-600 focus:text-red-600 dark:text-red-400"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  )
+}
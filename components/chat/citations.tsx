@@ -0,0 +1,126 @@
+"use client"
+
+import * as React from "react"
+import { ChevronDown, ExternalLink } from "lucide-react"
+
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { sourceHost, type Source } from "@/lib/citations"
+
+function SourcePreview({ source }: { source: Source }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="font-medium leading-snug">{source.title}</div>
+      {source.url && <div className="text-xs text-muted-foreground">{sourceHost(source.url)}</div>}
+      {source.snippet && <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-4">{source.snippet}</p>}
+    </div>
+  )
+}
+
+// Anchor of source `index` (1-based) in the list under message `messageId`
+const sourceAnchor = (messageId: string, index: number) => `source-${messageId}-${index}`
+
+// Sent by markers of sources without a URL; the answer's SourcesList opens
+// and scrolls to the entry
+const SHOW_SOURCE_EVENT = "medi-assist:show-source"
+
+interface ShowSourceDetail {
+  messageId: string
+  index: number
+}
+
+interface CitationMarkerProps {
+  messageId: string
+  index: number
+  source: Source
+}
+
+// Superscript footnote number for a `[^n]` marker, previewing the source on hover
+export function CitationMarker({ messageId, index, source }: CitationMarkerProps) {
+  const showSource = (event: React.MouseEvent) => {
+    event.preventDefault()
+    const detail: ShowSourceDetail = { messageId, index }
+    window.dispatchEvent(new CustomEvent(SHOW_SOURCE_EVENT, { detail }))
+  }
+
+  return (
+    <HoverCard openDelay={150} closeDelay={100}>
+      <HoverCardTrigger asChild>
+        <a
+          href={source.url || `#${sourceAnchor(messageId, index)}`}
+          target={source.url ? "_blank" : undefined}
+          onClick={source.url ? undefined : showSource}
+          rel="noopener noreferrer"
+          className="not-prose mx-0.5 align-super text-[10px] font-semibold text-blue-600 no-underline hover:underline dark:text-blue-400"
+          aria-label={`Source ${index}: ${source.title}`}
+        >
+          [{index}]
+        </a>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <SourcePreview source={source} />
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+// Numbered source list under an answer, collapsed by default
+export function SourcesList({ messageId, sources }: { messageId: string; sources: Source[] }) {
+  const [open, setOpen] = React.useState(false)
+  // Entry to scroll to once the list has rendered open
+  const [target, setTarget] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const show = (event: Event) => {
+      const detail = (event as CustomEvent<ShowSourceDetail>).detail
+      if (detail.messageId !== messageId) return
+      setOpen(true)
+      setTarget(sourceAnchor(messageId, detail.index))
+    }
+    window.addEventListener(SHOW_SOURCE_EVENT, show)
+    return () => window.removeEventListener(SHOW_SOURCE_EVENT, show)
+  }, [messageId])
+
+  React.useEffect(() => {
+    if (!open || !target) return
+    document.getElementById(target)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    setTarget(null)
+  }, [open, target])
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full">
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+        <ChevronDown className={`w-3 h-3 transition-transform ${open ? "rotate-180" : ""}`} />
+        Sources ({sources.length})
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+          {sources.map((source, i) => (
+            <li key={i} id={sourceAnchor(messageId, i + 1)} className="flex gap-2 text-sm">
+              <span className="w-5 flex-shrink-0 text-right text-xs font-semibold text-gray-500 dark:text-gray-400">
+                {i + 1}.
+              </span>
+              <div className="min-w-0">
+                {source.url ? (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 font-medium text-gray-800 dark:text-gray-200 hover:underline"
+                  >
+                    {source.title}
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </a>
+                ) : (
+                  <span className="font-medium text-gray-500">{source.title}</span>
+                )}
+                {source.url && <div className="text-xs text-muted-foreground">{sourceHost(source.url)}</div>}
+                {source.snippet && <p className="text-xs text-gray-600 dark:text-gray-300">{source.snippet}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import * as React from "react"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Message } from "@/lib/chat-types"
+import { diffWords, type DiffPart } from "@/lib/text-diff"
+
+interface CompareAnswersDialogProps {
+  versions: Message[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function VersionPicker({ value, count, onChange }: { value: number; count: number; onChange: (value: number) => void }) {
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="h-8 w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Array.from({ length: count }, (_, i) => (
+          <SelectItem key={i} value={String(i)}>
+            Version {i + 1}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function DiffColumn({ parts, side }: { parts: DiffPart[]; side: "removed" | "added" }) {
+  const highlight =
+    side === "removed"
+      ? "bg-red-100 text-red-900 line-through dark:bg-red-950 dark:text-red-200"
+      : "bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200"
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm whitespace-pre-wrap">
+      {parts
+        .filter((part) => part.type === "same" || part.type === side)
+        .map((part, i) => (
+          <span key={i} className={part.type === side ? highlight : undefined}>
+            {part.text}
+          </span>
+        ))}
+    </div>
+  )
+}
+
+// Side-by-side word diff between two versions of a regenerated answer
+export function CompareAnswersDialog({ versions, open, onOpenChange }: CompareAnswersDialogProps) {
+  const [left, setLeft] = React.useState(0)
+  const [right, setRight] = React.useState(Math.max(versions.length - 1, 0))
+
+  React.useEffect(() => {
+    if (open) {
+      // Default to the two most recent versions
+      setLeft(Math.max(versions.length - 2, 0))
+      setRight(Math.max(versions.length - 1, 0))
+    }
+  }, [open, versions.length])
+
+  const parts = React.useMemo(
+    () => diffWords(versions[left]?.content ?? "", versions[right]?.content ?? ""),
+    [versions, left, right]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare answers</DialogTitle>
+          <DialogDescription>Removed text is struck through on the left; new text is highlighted on the right.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <VersionPicker value={left} count={versions.length} onChange={setLeft} />
+            <DiffColumn parts={parts} side="removed" />
+          </div>
+          <div className="space-y-2">
+            <VersionPicker value={right} count={versions.length} onChange={setRight} />
+            <DiffColumn parts={parts} side="added" />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
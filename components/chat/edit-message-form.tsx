@@ -0,0 +1,45 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+
+interface EditMessageFormProps {
+  initialContent: string
+  onSubmit: (content: string) => void
+  onCancel: () => void
+}
+
+export function EditMessageForm({ initialContent, onSubmit, onCancel }: EditMessageFormProps) {
+  const [content, setContent] = React.useState(initialContent)
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (content.trim()) onSubmit(content)
+  }
+
+  return (
+    <form onSubmit={submit} className="w-full min-w-[16rem] space-y-2">
+      <Textarea
+        autoFocus
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) submit(e)
+          if (e.key === "Escape") onCancel()
+        }}
+        className="text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        aria-label="Edit message"
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel} className="bg-transparent">
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!content.trim()} className="bg-blue-500 hover:bg-blue-600">
+          Save & send
+        </Button>
+      </div>
+    </form>
+  )
+}
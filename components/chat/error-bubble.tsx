@@ -0,0 +1,55 @@
+"use client"
+
+import { AlertTriangle, Clock, Gauge, History, ImageOff, RotateCcw, ServerCrash, WifiOff, type LucideIcon } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import type { ChatErrorCode } from "@/lib/chat-protocol"
+
+const ICONS: Partial<Record<ChatErrorCode, LucideIcon>> = {
+  backend_asleep: ServerCrash,
+  timeout: Clock,
+  rate_limited: Gauge,
+  payload_too_large: ImageOff,
+  network_error: WifiOff,
+  session_expired: History,
+}
+
+interface ErrorBubbleProps {
+  code: ChatErrorCode
+  onRetry?: () => void
+  retryDisabled?: boolean
+}
+
+export function ErrorBubble({ code, onRetry, retryDisabled }: ErrorBubbleProps) {
+  const copy = CHAT_ERROR_COPY[code]
+  const Icon = ICONS[code] ?? AlertTriangle
+
+  return (
+    <Card
+      role="alert"
+      className="px-4 py-3 bg-red-50 dark:bg-red-950/40 border border-red-200 dark:border-red-900 text-red-900 dark:text-red-100"
+    >
+      <div className="flex items-start gap-3">
+        <Icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <div className="space-y-1">
+          <p className="text-sm font-medium">{copy.title}</p>
+          <p className="text-sm opacity-90">{copy.description}</p>
+          {copy.retryable && onRetry && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRetry}
+              disabled={retryDisabled}
+              className="mt-2 h-7 bg-transparent border-red-300 dark:border-red-800"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              {copy.retryLabel ?? "Retry"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  )
+}
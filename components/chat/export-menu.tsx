@@ -0,0 +1,71 @@
+"use client"
+
+import { Download, FileJson, FileText, Printer } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { Message } from "@/lib/chat-types"
+import {
+  conversationToJson,
+  conversationToMarkdown,
+  exportFileName,
+  type ExportContext,
+} from "@/lib/conversation-export"
+import { downloadFile } from "@/lib/download"
+import type { MessageTree } from "@/lib/message-tree"
+
+interface ExportMenuProps {
+  tree: MessageTree
+  // The visible branch of `tree`
+  messages: Message[]
+  context: ExportContext
+  disabled?: boolean
+}
+
+export function ExportMenu({ tree, messages, context, disabled }: ExportMenuProps) {
+  const fileName = exportFileName(context)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || messages.length === 0}
+          className="bg-transparent border-gray-300 dark:border-gray-600"
+        >
+          <Download className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export conversation</DropdownMenuLabel>
+        <DropdownMenuItem
+          onSelect={() => downloadFile(conversationToMarkdown(messages, context), `${fileName}.md`, "text/markdown;charset=utf-8")}
+        >
+          <FileText className="w-4 h-4 mr-2" />
+          Markdown
+        </DropdownMenuItem>
+        {/* Printed from the print-only transcript; wait for the menu to close first */}
+        <DropdownMenuItem onSelect={() => setTimeout(() => window.print(), 100)}>
+          <Printer className="w-4 h-4 mr-2" />
+          PDF (print)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={() => downloadFile(conversationToJson(tree, context), `${fileName}.json`, "application/json")}
+        >
+          <FileJson className="w-4 h-4 mr-2" />
+          JSON (can be imported)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import ReactMarkdown from "react-markdown"
+
+import { CitationMarker } from "@/components/chat/citations"
+import { CITATION_HREF_PREFIX, linkCitations, type Source } from "@/lib/citations"
+
+interface MarkdownAnswerProps {
+  // Message the answer belongs to, to link footnotes to its source list
+  messageId: string
+  content: string
+  // Turns `[^n]` markers in `content` into footnotes
+  sources?: Source[]
+}
+
+export function MarkdownAnswer({ messageId, content, sources = [] }: MarkdownAnswerProps) {
+  return (
+    <ReactMarkdown
+      components={{
+        a({ node, href, children, ...props }) {
+          if (href?.startsWith(CITATION_HREF_PREFIX)) {
+            const index = Number(href.slice(CITATION_HREF_PREFIX.length))
+            const source = sources[index - 1]
+            if (source) return <CitationMarker messageId={messageId} index={index} source={source} />
+          }
+          return (
+            <a href={href} {...props}>
+              {children}
+            </a>
+          )
+        },
+        code({ node, className, children, ...props }) {
+          // react-markdown no longer passes `inline`; fenced blocks carry a
+          // language class or span several lines
+          const inline = !className && !String(children).includes("\n")
+          return inline ? (
+            <code
+              className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm font-mono text-gray-800 dark:text-gray-200"
+              {...props}
+            >
+              {children}
+            </code>
+          ) : (
+            <pre className="bg-gray-900 dark:bg-gray-950 text-gray-100 p-4 rounded-lg overflow-x-auto my-2">
+              <code className="font-mono text-sm" {...props}>
+                {children}
+              </code>
+            </pre>
+          )
+        },
+      }}
+    >
+      {linkCitations(content, sources.length)}
+    </ReactMarkdown>
+  )
+}
@@ -0,0 +1,182 @@
+"use client"
+
+import * as React from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { Pencil, Pill, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Switch } from "@/components/ui/switch"
+import { useMedicationList } from "@/hooks/use-medication-list"
+import { MAX_MEDICATIONS, medicationFormSchema, type MedicationFormValues } from "@/lib/medication-list"
+
+const EMPTY_FORM: MedicationFormValues = { name: "", dose: "", frequency: "", notes: "" }
+
+type MedicationList = ReturnType<typeof useMedicationList>
+
+export function MedicationPanel({ list }: { list: MedicationList }) {
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const form = useForm<MedicationFormValues>({
+    resolver: zodResolver(medicationFormSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const onSubmit = (values: MedicationFormValues) => {
+    if (editingId) list.update(editingId, values)
+    else list.add(values)
+    setEditingId(null)
+    form.reset(EMPTY_FORM)
+  }
+
+  const startEdit = (id: string) => {
+    const medication = list.medications.find((m) => m.id === id)
+    if (!medication) return
+    setEditingId(id)
+    form.reset({ name: medication.name, dose: medication.dose, frequency: medication.frequency, notes: medication.notes })
+  }
+
+  const cancelEdit = () => {
+    setEditingId(null)
+    form.reset(EMPTY_FORM)
+  }
+
+  const isFull = !editingId && list.medications.length >= MAX_MEDICATIONS
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-transparent border-gray-300 dark:border-gray-600">
+          <Pill className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">My medications</span>
+          {list.attachToChat && list.medications.length > 0 && (
+            <span className="ml-1 rounded-full bg-blue-500 px-1.5 text-[10px] text-white">{list.medications.length}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>My medications</SheetTitle>
+          <SheetDescription>
+            Stored only in this browser. When enabled, the list is sent with each question so interaction checks
+            don&apos;t need it retyped.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 flex items-center justify-between rounded-md border p-3">
+          <Label htmlFor="attach-medications" className="text-sm">
+            Include with my questions
+          </Label>
+          <Switch id="attach-medications" checked={list.attachToChat} onCheckedChange={list.setAttachToChat} />
+        </div>
+
+        <ul className="mt-4 space-y-2">
+          {list.medications.length === 0 && <li className="text-sm text-muted-foreground">No medications added yet.</li>}
+          {list.medications.map((medication) => (
+            <li key={medication.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+              <div className="min-w-0 text-sm">
+                <div className="font-medium">
+                  {medication.name}
+                  {medication.dose && <span className="font-normal text-muted-foreground"> · {medication.dose}</span>}
+                </div>
+                {medication.frequency && <div className="text-muted-foreground">{medication.frequency}</div>}
+                {medication.notes && <div className="text-xs text-muted-foreground">{medication.notes}</div>}
+              </div>
+              <div className="flex flex-shrink-0">
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(medication.id)} aria-label="Edit">
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => {
+                    if (editingId === medication.id) cancelEdit()
+                    list.remove(medication.id)
+                  }}
+                  aria-label="Remove"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="mt-6 space-y-3">
+            <h3 className="text-sm font-medium">{editingId ? "Edit medication" : "Add medication"}</h3>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Medicine</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Metformin" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="dose"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dose</FormLabel>
+                    <FormControl>
+                      <Input placeholder="500 mg" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>How often</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Twice daily" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {isFull && <p className="text-xs text-red-600">You can keep up to {MAX_MEDICATIONS} medications.</p>}
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={cancelEdit} className="bg-transparent">
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isFull} className="bg-blue-500 hover:bg-blue-600">
+                {editingId ? "Save" : "Add"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import * as React from "react"
+import { Check, ClipboardCopy, Download, Pill, TriangleAlert } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { downloadFile } from "@/lib/download"
+import {
+  PRESCRIPTION_COLUMNS,
+  prescriptionToCsv,
+  prescriptionToText,
+  type PrescriptionResult,
+} from "@/lib/prescription"
+
+interface PrescriptionCardProps {
+  result: PrescriptionResult
+  // Extra actions rendered next to Copy / Export, e.g. "Build schedule"
+  actions?: React.ReactNode
+}
+
+export function PrescriptionCard({ result, actions }: PrescriptionCardProps) {
+  const [copied, setCopied] = React.useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(prescriptionToText(result))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Copy failed:", error)
+    }
+  }
+
+  const exportCsv = () => downloadFile(prescriptionToCsv(result), "prescription.csv", "text/csv;charset=utf-8")
+
+  return (
+    <div className="not-prose space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-gray-200">
+          <Pill className="w-4 h-4" />
+          Prescription analysis
+        </div>
+        <div className="flex items-center gap-1">
+          {actions}
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={copy}>
+            {copied ? <Check className="w-3 h-3 mr-1" /> : <ClipboardCopy className="w-3 h-3 mr-1" />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={exportCsv}>
+            <Download className="w-3 h-3 mr-1" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border border-gray-200 dark:border-gray-700">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {PRESCRIPTION_COLUMNS.map((column) => (
+                <TableHead key={column.key} className="h-9 text-xs">
+                  {column.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.drugs.map((drug, index) => (
+              <TableRow key={index}>
+                {PRESCRIPTION_COLUMNS.map((column) => (
+                  <TableCell key={column.key} className={`py-2 text-sm ${column.key === "name" ? "font-medium" : ""}`}>
+                    {drug[column.key] || "—"}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {result.warnings.length > 0 && (
+        <div className="rounded-md bg-amber-50 dark:bg-amber-950/40 px-3 py-2 text-sm text-amber-900 dark:text-amber-100">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            <TriangleAlert className="w-4 h-4" />
+            Warnings
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {result.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import * as React from "react"
+import { createPortal } from "react-dom"
+
+import { MarkdownAnswer } from "@/components/chat/markdown-answer"
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import type { Message } from "@/lib/chat-types"
+import { formatTimestamp, type ExportContext } from "@/lib/conversation-export"
+
+interface PrintableTranscriptProps {
+  messages: Message[]
+  context: ExportContext
+}
+
+// Print-only layout of the visible conversation. The PDF export prints the
+// page, and the browser's "Save as PDF" produces the file. Rendered into
+// <body> so the app around it can be hidden with `print:hidden`.
+export function PrintableTranscript({ messages, context }: PrintableTranscriptProps) {
+  const [mounted, setMounted] = React.useState(false)
+  React.useEffect(() => setMounted(true), [])
+  if (!mounted) return null
+
+  return createPortal(
+    <div className="hidden print:block text-black bg-white p-8 text-sm">
+      <header className="mb-6 border-b border-gray-300 pb-4">
+        <h1 className="text-2xl font-semibold">{context.title}</h1>
+        <p>Interaction ID: {context.sessionId ?? "not assigned"}</p>
+        <p>Exported: {formatTimestamp(new Date())}</p>
+        <p className="mt-2 italic">Medi Assist provides general information, not medical advice.</p>
+      </header>
+
+      {messages.map((message) => (
+        <section key={message.id} className="mb-6 break-inside-avoid-page">
+          <h2 className="mb-1 font-semibold">
+            {message.role === "user" ? "You" : "Medi Assist"}
+            <span className="ml-2 font-normal text-gray-600">{formatTimestamp(message.timestamp)}</span>
+          </h2>
+          {message.images && message.images.length > 0 && (
+            <div className="mb-2 flex flex-wrap gap-2">
+              {message.images.map((image, i) => (
+                <img key={i} src={image} alt={`Attachment ${i + 1}`} className="max-h-64 rounded border border-gray-300" />
+              ))}
+            </div>
+          )}
+          {message.error ? (
+            <p className="italic">No answer: {CHAT_ERROR_COPY[message.error.code].title}</p>
+          ) : message.role === "user" ? (
+            <p className="whitespace-pre-wrap">{message.content}</p>
+          ) : (
+            <div className="prose prose-sm max-w-none">
+              <MarkdownAnswer messageId={message.id} content={message.content} sources={message.sources} />
+            </div>
+          )}
+          {message.stopped && <p className="italic text-gray-600">Response stopped</p>}
+          {message.sources && message.sources.length > 0 && (
+            <ol className="mt-2 list-decimal pl-5 text-xs text-gray-700">
+              {message.sources.map((source, i) => (
+                <li key={i}>
+                  {source.title}
+                  {source.url && ` — ${source.url}`}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      ))}
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,218 @@
+"use client"
+
+import * as React from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { profileFormSchema, profileToForm, type PatientProfile, type ProfileFormValues } from "@/lib/patient-profile"
+
+// Radix Select items cannot have an empty value
+const UNSPECIFIED = "unspecified"
+
+const SEX_OPTIONS = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+  { value: "other", label: "Other" },
+]
+
+const PREGNANCY_OPTIONS = [
+  { value: "pregnant", label: "Pregnant" },
+  { value: "breastfeeding", label: "Breastfeeding" },
+  { value: "not_pregnant", label: "Neither" },
+]
+
+interface ProfileDialogProps {
+  // Edits this profile, or creates a new one when absent
+  profile?: PatientProfile
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (values: ProfileFormValues) => void
+  onDelete?: () => void
+}
+
+function OptionalSelect({
+  value,
+  onChange,
+  options,
+}: {
+  value: string
+  onChange: (value: string) => void
+  options: { value: string; label: string }[]
+}) {
+  return (
+    <Select value={value || UNSPECIFIED} onValueChange={(v) => onChange(v === UNSPECIFIED ? "" : v)}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        <SelectItem value={UNSPECIFIED}>Not specified</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ProfileDialog({ profile, open, onOpenChange, onSave, onDelete }: ProfileDialogProps) {
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: profileToForm(profile),
+  })
+
+  React.useEffect(() => {
+    if (open) form.reset(profileToForm(profile))
+  }, [open, profile, form])
+
+  const sex = form.watch("sex")
+
+  const onSubmit = (values: ProfileFormValues) => {
+    // Pregnancy does not apply to male profiles; drop a stale answer
+    onSave(values.sex === "male" ? { ...values, pregnancy: "" } : values)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit profile" : "New profile"}</DialogTitle>
+          <DialogDescription>
+            Stored only in this browser. Everything except the name is sent with questions while this profile is
+            selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Me, Mum, Sam" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="age"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Age (years)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weightKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight (kg)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="sex"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sex</FormLabel>
+                    <OptionalSelect value={field.value} onChange={field.onChange} options={SEX_OPTIONS} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {sex !== "male" && (
+                <FormField
+                  control={form.control}
+                  name="pregnancy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pregnancy</FormLabel>
+                      <OptionalSelect value={field.value} onChange={field.onChange} options={PREGNANCY_OPTIONS} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <FormField
+              control={form.control}
+              name="allergies"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allergies</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="e.g. penicillin, peanuts" {...field} />
+                  </FormControl>
+                  <FormDescription>Separate with commas or new lines.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="conditions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Conditions</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="e.g. asthma, type 2 diabetes" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {onDelete ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="bg-transparent text-red-600"
+                  onClick={() => {
+                    onDelete()
+                    onOpenChange(false)
+                  }}
+                >
+                  Delete profile
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" className="bg-blue-500 hover:bg-blue-600">
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
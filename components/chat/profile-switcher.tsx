@@ -0,0 +1,82 @@
+"use client"
+
+import * as React from "react"
+import { ChevronDown, Pencil, Plus, UserRound } from "lucide-react"
+
+import { ProfileDialog } from "@/components/chat/profile-dialog"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { usePatientProfiles } from "@/hooks/use-patient-profiles"
+import { describeProfile, MAX_PROFILES } from "@/lib/patient-profile"
+
+// Radio value for "no profile attached"
+const NONE = "none"
+
+type PatientProfiles = ReturnType<typeof usePatientProfiles>
+
+// Header control choosing whose details are sent with each question
+export function ProfileSwitcher({ profiles }: { profiles: PatientProfiles }) {
+  const [dialog, setDialog] = React.useState<"new" | "edit" | null>(null)
+  const active = profiles.activeProfile
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-transparent border-gray-300 dark:border-gray-600 max-w-[12rem]">
+            <UserRound className="w-4 h-4 sm:mr-2 flex-shrink-0" />
+            <span className="hidden sm:inline truncate">{active ? active.name : "No profile"}</span>
+            <ChevronDown className="w-3 h-3 ml-1 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Asking for</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={active?.id ?? NONE}
+            onValueChange={(value) => profiles.select(value === NONE ? null : value)}
+          >
+            <DropdownMenuRadioItem value={NONE}>No profile</DropdownMenuRadioItem>
+            {profiles.profiles.map((profile) => (
+              <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                <div className="min-w-0">
+                  <div className="truncate">{profile.name}</div>
+                  {describeProfile(profile) && (
+                    <div className="text-xs text-muted-foreground">{describeProfile(profile)}</div>
+                  )}
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          {active && (
+            <DropdownMenuItem onSelect={() => setDialog("edit")}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit {active.name}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem disabled={profiles.profiles.length >= MAX_PROFILES} onSelect={() => setDialog("new")}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add profile
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProfileDialog
+        profile={dialog === "edit" ? (active ?? undefined) : undefined}
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSave={(values) => (dialog === "edit" && active ? profiles.update(active.id, values) : profiles.add(values))}
+        onDelete={dialog === "edit" && active ? () => profiles.remove(active.id) : undefined}
+      />
+    </>
+  )
+}
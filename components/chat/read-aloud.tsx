@@ -0,0 +1,135 @@
+"use client"
+
+import { Pause, Play, Square, Volume2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useSpeechOutput } from "@/hooks/use-speech-output"
+import type { Message } from "@/lib/chat-types"
+import { SPEECH_RATES } from "@/lib/speech-output"
+
+type SpeechOutput = ReturnType<typeof useSpeechOutput>
+
+// Radio value for the browser's default voice
+const DEFAULT_VOICE = "default"
+
+// Play/pause/stop for one assistant bubble
+export function ReadAloudControls({ speech, message }: { speech: SpeechOutput; message: Message }) {
+  if (!speech.supported) return null
+
+  if (speech.speakingId !== message.id) {
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-gray-500 dark:text-gray-400"
+        onClick={() => speech.speak(message.id, message.content)}
+        aria-label="Read aloud"
+      >
+        <Volume2 className="w-3 h-3" />
+      </Button>
+    )
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-blue-600 dark:text-blue-400"
+        onClick={speech.paused ? speech.resume : speech.pause}
+        aria-label={speech.paused ? "Resume reading" : "Pause reading"}
+      >
+        {speech.paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-blue-600 dark:text-blue-400"
+        onClick={speech.stop}
+        aria-label="Stop reading"
+      >
+        <Square className="w-3 h-3 fill-current" />
+      </Button>
+    </>
+  )
+}
+
+// Header menu for speed, voice and auto-read
+export function SpeechSettingsMenu({ speech }: { speech: SpeechOutput }) {
+  if (!speech.supported) return null
+
+  // Voices for the page language first; long lists are otherwise hard to scan
+  const language = typeof navigator === "undefined" ? "en" : navigator.language.split("-")[0]
+  const voices = [...speech.voices].sort(
+    (a, b) =>
+      Number(b.lang.startsWith(language)) - Number(a.lang.startsWith(language)) || a.name.localeCompare(b.name)
+  )
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-transparent border-gray-300 dark:border-gray-600"
+          aria-label="Read-aloud settings"
+        >
+          <Volume2 className="w-4 h-4" />
+          {speech.settings.autoRead && <span className="ml-1 h-1.5 w-1.5 rounded-full bg-blue-500" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Read aloud</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={speech.settings.autoRead}
+          onCheckedChange={(autoRead) => speech.updateSettings({ autoRead })}
+        >
+          Read new answers automatically
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Speed</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(speech.settings.rate)}
+          onValueChange={(value) => speech.updateSettings({ rate: Number(value) })}
+        >
+          {SPEECH_RATES.map((rate) => (
+            <DropdownMenuRadioItem key={rate} value={String(rate)}>
+              {rate === 1 ? "Normal" : `${rate}×`}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={voices.length === 0}>Voice</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+            <DropdownMenuRadioGroup
+              value={speech.settings.voiceURI ?? DEFAULT_VOICE}
+              onValueChange={(value) => speech.updateSettings({ voiceURI: value === DEFAULT_VOICE ? null : value })}
+            >
+              <DropdownMenuRadioItem value={DEFAULT_VOICE}>Browser default</DropdownMenuRadioItem>
+              {voices.map((voice) => (
+                <DropdownMenuRadioItem key={voice.voiceURI} value={voice.voiceURI}>
+                  <span className="truncate">{voice.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">{voice.lang}</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
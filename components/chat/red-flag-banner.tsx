@@ -0,0 +1,64 @@
+"use client"
+
+import * as React from "react"
+import { Siren, X } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { emergencyContactsFor, RED_FLAG_LABELS, type RedFlagCategory } from "@/lib/red-flags"
+
+const telHref = (number: string) => `tel:${number.replace(/[^\d+]/g, "")}`
+
+// Shown under a flagged user message, ahead of the answer, until the user
+// dismisses it for that message
+export function RedFlagBanner({ categories }: { categories: RedFlagCategory[] }) {
+  const [dismissed, setDismissed] = React.useState(false)
+  // navigator is only available after mount
+  const [locale, setLocale] = React.useState<string>()
+  React.useEffect(() => setLocale(navigator.language), [])
+  const contacts = emergencyContactsFor(locale)
+
+  if (dismissed) return null
+
+  return (
+    <Alert variant="destructive" className="bg-red-50 dark:bg-red-950 border-red-500 pr-10">
+      {/* Before the icon, so the Alert's spacing for text after it does not apply */}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute right-2 top-2 h-6 w-6 text-red-700 hover:bg-red-100 dark:text-red-300 dark:hover:bg-red-900"
+        onClick={() => setDismissed(true)}
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+      <Siren className="h-4 w-4" />
+      <AlertTitle>This could be a medical emergency</AlertTitle>
+      <AlertDescription className="space-y-1">
+        <p>
+          Your message mentions {categories.map((category) => RED_FLAG_LABELS[category]).join(", ")}. Call{" "}
+          <a href={telHref(contacts.emergency)} className="font-semibold underline">
+            {contacts.emergency}
+          </a>{" "}
+          or go to the nearest emergency department now. Do not wait for this chat.
+        </p>
+        {categories.includes("overdose") && contacts.poison && (
+          <p>
+            Poison help:{" "}
+            <a href={telHref(contacts.poison)} className="font-semibold underline">
+              {contacts.poison}
+            </a>
+          </p>
+        )}
+        {categories.includes("self_harm") && contacts.crisis && (
+          <p>
+            You are not alone. {contacts.crisis.name}:{" "}
+            <a href={telHref(contacts.crisis.number)} className="font-semibold underline">
+              {contacts.crisis.number}
+            </a>
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
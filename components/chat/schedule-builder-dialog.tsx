@@ -0,0 +1,258 @@
+"use client"
+
+import * as React from "react"
+import { CalendarPlus, Download, Plus, TriangleAlert, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { downloadFile } from "@/lib/download"
+import {
+  buildSchedule,
+  doseDays,
+  dosesOn,
+  scheduleToIcs,
+  type MedicationSchedule,
+  type ScheduleEntry,
+} from "@/lib/medication-schedule"
+import type { PrescriptionResult } from "@/lib/prescription"
+
+const REMINDER_OPTIONS = [0, 5, 10, 15, 30]
+
+interface ScheduleBuilderDialogProps {
+  prescription: PrescriptionResult
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ScheduleBuilderDialog({ prescription, open, onOpenChange }: ScheduleBuilderDialogProps) {
+  const [schedule, setSchedule] = React.useState<MedicationSchedule>(() => buildSchedule(prescription))
+  const [selectedDay, setSelectedDay] = React.useState<Date>(schedule.startDate)
+
+  React.useEffect(() => {
+    if (open) {
+      const fresh = buildSchedule(prescription)
+      setSchedule(fresh)
+      setSelectedDay(fresh.startDate)
+    }
+  }, [open, prescription])
+
+  const updateEntry = (id: string, patch: Partial<ScheduleEntry>) =>
+    setSchedule((prev) => ({
+      ...prev,
+      // Editing the times of a guessed entry counts as checking them
+      entries: prev.entries.map((entry) =>
+        entry.id === id ? { ...entry, ...patch, ...(patch.times && { guessed: false }) } : entry
+      ),
+    }))
+
+  const setTime = (entry: ScheduleEntry, index: number, time: string) =>
+    updateEntry(entry.id, { times: entry.times.map((t, i) => (i === index ? time : t)).sort() })
+
+  const doseDates = schedule.entries.flatMap((entry) => doseDays(schedule, entry))
+  const doses = dosesOn(schedule, selectedDay)
+
+  const exportIcs = () =>
+    downloadFile(scheduleToIcs(schedule), "medication-schedule.ics", "text/calendar;charset=utf-8")
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Medication schedule</DialogTitle>
+          <DialogDescription>
+            Times are suggested from the prescription. Check them against the label or your doctor&apos;s instructions
+            before relying on reminders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+          <div className="space-y-3">
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={(day) => day && setSelectedDay(day)}
+              modifiers={{ dose: doseDates }}
+              modifiersClassNames={{ dose: "font-semibold underline decoration-blue-500 underline-offset-4" }}
+              className="rounded-md border"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full bg-transparent"
+              onClick={() => setSchedule((prev) => ({ ...prev, startDate: selectedDay }))}
+            >
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Start course on this day
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium mb-2">
+                {selectedDay.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" })}
+              </h3>
+              {doses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No doses on this day.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {doses.map(({ time, entry }) => (
+                    <li key={`${entry.id}-${time}`} className="flex gap-3">
+                      <span className="w-12 tabular-nums text-muted-foreground">{time}</span>
+                      <span>
+                        <span className="font-medium">{entry.drug}</span> — {entry.dose}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Drug</TableHead>
+                  <TableHead>Times</TableHead>
+                  <TableHead>Repeats</TableHead>
+                  <TableHead>For</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="align-top">
+                      <div className="font-medium">{entry.drug}</div>
+                      <div className="text-xs text-muted-foreground">{entry.dose}</div>
+                      {entry.guessed && (
+                        <div className="mt-1 flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400">
+                          <TriangleAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          <span>
+                            Times guessed from &ldquo;{entry.frequency || "no frequency"}&rdquo;. Check them.
+                          </span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {entry.asNeeded ? (
+                        <div className="space-y-1 text-xs">
+                          <p className="text-muted-foreground">
+                            As needed ({entry.frequency}), so no reminders are set.
+                          </p>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 bg-transparent"
+                            onClick={() => updateEntry(entry.id, { asNeeded: false, times: ["08:00"] })}
+                          >
+                            Schedule anyway
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-1">
+                          {entry.times.map((time, index) => (
+                            <div key={index} className="flex items-center">
+                              <Input
+                                type="time"
+                                value={time}
+                                onChange={(e) => e.target.value && setTime(entry, index, e.target.value)}
+                                className="h-8 w-[6.5rem]"
+                                aria-label={`${entry.drug} dose ${index + 1} time`}
+                              />
+                              {entry.times.length > 1 && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => updateEntry(entry.id, { times: entry.times.filter((_, i) => i !== index) })}
+                                  aria-label="Remove time"
+                                >
+                                  <X className="w-3 h-3" />
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => updateEntry(entry.id, { times: [...entry.times, "12:00"].sort() })}
+                            aria-label="Add time"
+                          >
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Select
+                        value={entry.recurrence}
+                        onValueChange={(value) => updateEntry(entry.id, { recurrence: value as ScheduleEntry["recurrence"] })}
+                      >
+                        <SelectTrigger className="h-8 w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={1}
+                          max={365}
+                          value={entry.occurrences}
+                          onChange={(e) =>
+                            updateEntry(entry.id, { occurrences: Math.min(365, Math.max(1, Number(e.target.value) || 1)) })
+                          }
+                          className="h-8 w-16"
+                          aria-label={`${entry.drug} course length`}
+                        />
+                        <span className="text-xs text-muted-foreground">
+                          {entry.recurrence === "weekly" ? "weeks" : "days"}
+                        </span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="reminder" className="text-sm">
+              Remind me
+            </Label>
+            <Select
+              value={String(schedule.reminderMinutes)}
+              onValueChange={(value) => setSchedule((prev) => ({ ...prev, reminderMinutes: Number(value) }))}
+            >
+              <SelectTrigger id="reminder" className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? "At dose time" : `${minutes} min before`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={exportIcs} className="bg-blue-500 hover:bg-blue-600">
+            <Download className="w-4 h-4 mr-2" />
+            Export .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,241 @@
+"use client"
+
+import * as React from "react"
+import { Check, Copy, Link2, Loader2, Share2, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import type { Message } from "@/lib/chat-types"
+import { CONSENT_HEADER, toConsentToken, type ConsentRecord } from "@/lib/consent"
+import { formatTimestamp, type ExportContext } from "@/lib/conversation-export"
+import {
+  loadSavedShares,
+  REVOKE_HEADER,
+  saveSavedShares,
+  SHARE_EXPIRY_DAYS,
+  type SavedShare,
+  type ShareCreated,
+  type ShareErrorBody,
+  type ShareRequestBody,
+} from "@/lib/share"
+
+interface ShareDialogProps {
+  // The visible branch; other branches are not shared
+  messages: Message[]
+  // Saved conversation the links are listed under
+  conversationId: string | null
+  context: ExportContext
+  consent: ConsentRecord | null
+  disabled?: boolean
+}
+
+async function readShareError(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => null)) as ShareErrorBody | null
+  return body?.error.message ?? `Request failed (${res.status})`
+}
+
+const absoluteUrl = (path: string) => new URL(path, window.location.origin).toString()
+
+export function ShareDialog({ messages, conversationId, context, consent, disabled }: ShareDialogProps) {
+  const [open, setOpen] = React.useState(false)
+  const [expiresInDays, setExpiresInDays] = React.useState<ShareRequestBody["expiresInDays"]>(7)
+  const [redactImages, setRedactImages] = React.useState(true)
+  const [shares, setShares] = React.useState<SavedShare[]>([])
+  const [created, setCreated] = React.useState<SavedShare | null>(null)
+  const [copiedId, setCopiedId] = React.useState<string | null>(null)
+  const [isBusy, setIsBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (open) {
+      setShares(loadSavedShares())
+      setCreated(null)
+      setError(null)
+    }
+  }, [open])
+
+  const updateShares = (next: SavedShare[]) => {
+    setShares(next)
+    saveSavedShares(next)
+  }
+
+  const hasImages = messages.some((message) => message.images && message.images.length > 0)
+  const ownShares = shares.filter((share) => share.conversationId === conversationId)
+
+  const createLink = async () => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const body: ShareRequestBody = {
+        title: context.title,
+        messages: messages.map((message) => ({ ...message, timestamp: message.timestamp.toISOString() })),
+        expiresInDays,
+        redactImages,
+      }
+      const res = await fetch("/api/share", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(consent && { [CONSENT_HEADER]: toConsentToken(consent) }),
+        },
+        body: JSON.stringify(body),
+      })
+      if (!res.ok) throw new Error(await readShareError(res))
+      const share: SavedShare = { ...((await res.json()) as ShareCreated), conversationId }
+      updateShares([share, ...loadSavedShares()])
+      setCreated(share)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The link could not be created.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const copyLink = async (share: SavedShare) => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(share.url))
+      setCopiedId(share.id)
+      setTimeout(() => setCopiedId((current) => (current === share.id ? null : current)), 2000)
+    } catch {
+      setError("Copy failed; select the link and copy it manually.")
+    }
+  }
+
+  const revoke = async (share: SavedShare) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/share/${share.id}`, {
+        method: "DELETE",
+        headers: { [REVOKE_HEADER]: share.revokeToken },
+      })
+      // 404: already expired or revoked elsewhere, so forget it as well
+      if (!res.ok && res.status !== 404) throw new Error(await readShareError(res))
+      updateShares(loadSavedShares().filter((s) => s.id !== share.id))
+      if (created?.id === share.id) setCreated(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The link could not be revoked.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || messages.length === 0}
+          className="bg-transparent border-gray-300 dark:border-gray-600"
+        >
+          <Share2 className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Share</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read a copy of the conversation as it is now. Later messages are not added.
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="space-y-2">
+            <Label htmlFor="share-url">Link</Label>
+            <div className="flex gap-2">
+              <Input id="share-url" readOnly value={absoluteUrl(created.url)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={() => copyLink(created)} aria-label="Copy link">
+                {copiedId === created.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Expires {formatTimestamp(new Date(created.expiresAt))}.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="share-expiry" className="text-sm">
+                Link expires after
+              </Label>
+              <Select
+                value={String(expiresInDays)}
+                onValueChange={(value) => setExpiresInDays(Number(value) as ShareRequestBody["expiresInDays"])}
+              >
+                <SelectTrigger id="share-expiry" className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? "1 day" : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <Label htmlFor="share-redact" className="text-sm">
+                Hide attached images
+                <span className="block text-xs font-normal text-muted-foreground">
+                  {hasImages ? "Photos of prescriptions often show names and addresses." : "This conversation has no images."}
+                </span>
+              </Label>
+              <Switch id="share-redact" checked={redactImages} onCheckedChange={setRedactImages} disabled={!hasImages} />
+            </div>
+            <Button onClick={createLink} disabled={isBusy} className="w-full bg-blue-500 hover:bg-blue-600">
+              {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+              Create link
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {ownShares.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Links to this conversation</h3>
+            <ul className="space-y-2">
+              {ownShares.map((share) => (
+                <li key={share.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="truncate font-mono text-xs">{share.url}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Expires {formatTimestamp(new Date(share.expiresAt))}
+                    </div>
+                  </div>
+                  <div className="flex flex-shrink-0">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyLink(share)} aria-label="Copy link">
+                      {copiedId === share.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => revoke(share)}
+                      disabled={isBusy}
+                      aria-label="Revoke link"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
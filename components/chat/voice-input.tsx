@@ -0,0 +1,119 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, Mic, Square } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useVoiceInput } from "@/hooks/use-voice-input"
+import { SPEECH_LANGUAGES, type SpeechLanguage } from "@/lib/voice-input"
+
+type VoiceInput = ReturnType<typeof useVoiceInput>
+
+// Mic and dictation language controls for the input row. Hidden when the
+// browser can neither recognise speech nor record audio.
+export function VoiceInputButton({ voice, disabled }: { voice: VoiceInput; disabled?: boolean }) {
+  if (!voice.mode) return null
+  const active = voice.status !== "idle"
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={active}
+            className="p-1 h-8 text-[10px] font-medium uppercase text-gray-500 dark:text-gray-400"
+            aria-label="Dictation language"
+          >
+            {voice.language.split("-")[0]}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Dictation language</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={voice.language}
+            onValueChange={(value) => voice.setLanguage(value as SpeechLanguage)}
+          >
+            {SPEECH_LANGUAGES.map((language) => (
+              <DropdownMenuRadioItem key={language.code} value={language.code}>
+                {language.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={voice.status === "listening" ? voice.stop : voice.start}
+        disabled={disabled || voice.status === "transcribing"}
+        aria-label={voice.status === "listening" ? "Stop dictation" : "Dictate message"}
+        aria-pressed={voice.status === "listening"}
+        className={`p-1 h-8 w-8 ${voice.status === "listening" ? "text-red-600 dark:text-red-400" : ""}`}
+      >
+        {voice.status === "transcribing" ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : voice.status === "listening" ? (
+          <Square className="w-3 h-3 fill-current" />
+        ) : (
+          <Mic className="w-4 h-4" />
+        )}
+      </Button>
+    </>
+  )
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+// Shown above the input while dictating, with what has been heard so far
+export function RecordingIndicator({ voice }: { voice: VoiceInput }) {
+  const [now, setNow] = React.useState(Date.now())
+
+  React.useEffect(() => {
+    if (voice.status !== "listening") return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [voice.status])
+
+  if (voice.status === "idle") {
+    return voice.error ? (
+      <p role="alert" className="mb-2 text-xs text-red-600 dark:text-red-400">
+        {voice.error}
+      </p>
+    ) : null
+  }
+
+  return (
+    <div role="status" className="mb-2 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+      {voice.status === "listening" ? (
+        <>
+          <span className="relative flex h-2.5 w-2.5 flex-shrink-0">
+            <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-red-400 opacity-75" />
+            <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-red-500" />
+          </span>
+          <span className="font-medium">
+            {voice.mode === "speech" ? "Listening" : "Recording"}
+            {voice.startedAt && ` ${formatElapsed(Math.max(0, now - voice.startedAt))}`}
+          </span>
+          {voice.interim && <span className="truncate italic text-gray-500 dark:text-gray-400">{voice.interim}</span>}
+        </>
+      ) : (
+        <span>Transcribing…</span>
+      )}
+    </div>
+  )
+}
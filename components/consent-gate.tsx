@@ -0,0 +1,78 @@
+"use client"
+
+import * as React from "react"
+import { ShieldCheck } from "lucide-react"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { useConsent } from "@/hooks/use-consent"
+import { TERMS_VERSION } from "@/lib/consent"
+
+const SECTIONS = [
+  {
+    title: "Not medical advice",
+    body: "Medi Assist gives general information only. It does not diagnose, prescribe or replace a doctor or pharmacist. In an emergency, call your local emergency number.",
+  },
+  {
+    title: "How your questions are processed",
+    body: "Your messages and any photos you attach are sent to the remote MediAssist service to generate answers. If you enable them, your medication list and the selected patient profile are sent too. Do not include names, ID numbers or other details you don't need to share.",
+  },
+  {
+    title: "Data retention",
+    body: "Conversations, profiles and medications are saved in this browser until you delete them. The MediAssist service keeps each conversation's context under its interaction ID so follow-up questions work; it is not used to identify you.",
+  },
+]
+
+type Consent = ReturnType<typeof useConsent>
+
+// Blocks the app until the current terms are accepted. It cannot be
+// dismissed: there is no cancel action and Escape is ignored.
+export function ConsentGate({ consent }: { consent: Consent }) {
+  const [understood, setUnderstood] = React.useState(false)
+
+  return (
+    <AlertDialog open={consent.needsConsent}>
+      <AlertDialogContent className="max-w-xl max-h-[90vh] overflow-y-auto" onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-blue-500" />
+            Before you start
+          </AlertDialogTitle>
+          <AlertDialogDescription>Please read how Medi Assist works. Terms version {TERMS_VERSION}.</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 text-sm">
+          {SECTIONS.map((section) => (
+            <div key={section.title}>
+              <h3 className="font-medium text-gray-800 dark:text-gray-200">{section.title}</h3>
+              <p className="text-gray-600 dark:text-gray-300">{section.body}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-start gap-2">
+          <Checkbox id="consent" checked={understood} onCheckedChange={(checked) => setUnderstood(checked === true)} />
+          <Label htmlFor="consent" className="text-sm font-normal leading-snug">
+            I understand that Medi Assist is not a substitute for professional medical advice and agree to my questions
+            being processed as described.
+          </Label>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogAction disabled={!understood} onClick={consent.accept} className="bg-blue-500 hover:bg-blue-600">
+            Accept and continue
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import * as React from "react"
+import { Check, Plus, X } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { MAX_INTERACTION_DRUGS } from "@/lib/drug-interactions"
+
+interface DrugPickerProps {
+  selected: string[]
+  onChange: (drugs: string[]) => void
+  // Names offered while typing; the user's own medications come first
+  suggestions: { heading: string; drugs: string[] }[]
+  disabled?: boolean
+}
+
+const sameDrug = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Multi-select combobox: autocompletes from `suggestions` and accepts any
+// typed name, since no fixed list covers every brand and generic
+export function DrugPicker({ selected, onChange, suggestions, disabled }: DrugPickerProps) {
+  const [open, setOpen] = React.useState(false)
+  const [search, setSearch] = React.useState("")
+  const isFull = selected.length >= MAX_INTERACTION_DRUGS
+
+  const toggle = (drug: string) => {
+    if (selected.some((s) => sameDrug(s, drug))) onChange(selected.filter((s) => !sameDrug(s, drug)))
+    else if (!isFull) onChange([...selected, drug])
+    setSearch("")
+  }
+
+  const typed = search.trim()
+  const isKnown = suggestions.some((group) => group.drugs.some((drug) => sameDrug(drug, typed)))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {selected.map((drug) => (
+          <Badge key={drug} variant="secondary" className="gap-1 py-1 pl-3 pr-1 text-sm font-normal">
+            {drug}
+            <button
+              type="button"
+              onClick={() => toggle(drug)}
+              disabled={disabled}
+              className="rounded-full p-0.5 hover:bg-gray-300 dark:hover:bg-gray-600"
+              aria-label={`Remove ${drug}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              role="combobox"
+              aria-expanded={open}
+              disabled={disabled || isFull}
+              className="bg-transparent border-gray-300 dark:border-gray-600"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add drug
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Search or type a drug name…" value={search} onValueChange={setSearch} />
+              <CommandList>
+                <CommandEmpty>No matching drugs.</CommandEmpty>
+                {typed && !isKnown && (
+                  <CommandGroup>
+                    <CommandItem value={`add ${typed}`} onSelect={() => toggle(typed)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add &ldquo;{typed}&rdquo;
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+                {suggestions
+                  .filter((group) => group.drugs.length > 0)
+                  .map((group) => (
+                    <CommandGroup key={group.heading} heading={group.heading}>
+                      {group.drugs.map((drug) => {
+                        const isSelected = selected.some((s) => sameDrug(s, drug))
+                        return (
+                          <CommandItem key={drug} value={drug} onSelect={() => toggle(drug)}>
+                            <Check className={`w-4 h-4 mr-2 ${isSelected ? "opacity-100" : "opacity-0"}`} />
+                            {drug}
+                          </CommandItem>
+                        )
+                      })}
+                    </CommandGroup>
+                  ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {isFull && <p className="text-xs text-muted-foreground">You can compare up to {MAX_INTERACTION_DRUGS} drugs at once.</p>}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  pairKey,
+  SEVERITIES,
+  SEVERITY_LABELS,
+  type InteractionPair,
+  type InteractionResult,
+  type Severity,
+} from "@/lib/drug-interactions"
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  unknown: "bg-gray-50 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+  none: "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-200",
+  minor: "bg-yellow-50 text-yellow-900 dark:bg-yellow-950 dark:text-yellow-200",
+  moderate: "bg-orange-100 text-orange-900 dark:bg-orange-950 dark:text-orange-200",
+  major: "bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-200",
+  contraindicated: "bg-red-600 text-white dark:bg-red-700",
+}
+
+function SeverityCell({ pair }: { pair: InteractionPair }) {
+  return (
+    <TableCell className={`align-top min-w-[10rem] max-w-[16rem] border ${SEVERITY_STYLES[pair.severity]}`}>
+      <div className="text-xs font-semibold uppercase tracking-wide">{SEVERITY_LABELS[pair.severity]}</div>
+      {pair.explanation && <p className="mt-1 text-xs leading-snug">{pair.explanation}</p>}
+    </TableCell>
+  )
+}
+
+// Symmetric drug × drug grid; each off-diagonal cell holds one pair's
+// severity and the backend's explanation
+export function InteractionMatrix({ result }: { result: InteractionResult }) {
+  const pairs = new Map(result.pairs.map((pair) => [pairKey(pair.a, pair.b), pair]))
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {result.drugs.map((drug) => (
+                <TableHead key={drug} className="font-semibold text-gray-800 dark:text-gray-200">
+                  {drug}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.drugs.map((row) => (
+              <TableRow key={row} className="hover:bg-transparent">
+                <TableHead className="font-semibold text-gray-800 dark:text-gray-200">{row}</TableHead>
+                {result.drugs.map((column) => {
+                  const pair = row === column ? undefined : pairs.get(pairKey(row, column))
+                  return pair ? (
+                    <SeverityCell key={column} pair={pair} />
+                  ) : (
+                    <TableCell key={column} className="border bg-gray-100 dark:bg-gray-800 text-center text-muted-foreground">
+                      —
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {[...SEVERITIES].reverse().map((severity) => (
+          <span key={severity} className={`rounded px-2 py-0.5 ${SEVERITY_STYLES[severity]}`}>
+            {SEVERITY_LABELS[severity]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import * as React from "react"
+
+import { clearConsent, loadConsent, saveConsent, TERMS_VERSION, type ConsentRecord } from "@/lib/consent"
+
+export function useConsent() {
+  const [consent, setConsent] = React.useState<ConsentRecord | null>(null)
+  // Until localStorage has been read, nobody is prompted
+  const [loaded, setLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    setConsent(loadConsent())
+    setLoaded(true)
+  }, [])
+
+  const accept = React.useCallback(() => {
+    const record = { version: TERMS_VERSION, acceptedAt: new Date().toISOString() }
+    saveConsent(record)
+    setConsent(record)
+  }, [])
+
+  // E.g. after the server rejected the stored token
+  const revoke = React.useCallback(() => {
+    clearConsent()
+    setConsent(null)
+  }, [])
+
+  return { consent, needsConsent: loaded && consent === null, accept, revoke }
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import * as React from "react"
+
+import type { Conversation, ConversationSummary } from "@/lib/chat-types"
+import {
+  deleteConversation,
+  getConversation,
+  listConversations,
+  renameConversation,
+  saveConversation,
+  upsertConversation,
+} from "@/lib/conversation-store"
+import type { MessageTree } from "@/lib/message-tree"
+
+export function useConversations() {
+  const [conversations, setConversations] = React.useState<ConversationSummary[]>([])
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setConversations(await listConversations())
+    } catch (error) {
+      console.error("Failed to load conversations:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const save = React.useCallback(
+    async (id: string, tree: MessageTree) => {
+      await upsertConversation(id, tree)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  // Stores a complete conversation as-is, e.g. one read from an export file
+  const add = React.useCallback(
+    async (conversation: Conversation) => {
+      await saveConversation(conversation)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const rename = React.useCallback(
+    async (id: string, title: string) => {
+      await renameConversation(id, title)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const remove = React.useCallback(
+    async (id: string) => {
+      await deleteConversation(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { conversations, load: getConversation, save, add, rename, remove }
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  EMPTY_MEDICATION_LIST,
+  loadMedicationList,
+  MAX_MEDICATIONS,
+  saveMedicationList,
+  type MedicationFormValues,
+  type MedicationListState,
+} from "@/lib/medication-list"
+
+export function useMedicationList() {
+  const [state, setState] = React.useState<MedicationListState>(EMPTY_MEDICATION_LIST)
+  // Updated with every change, so several changes in one event build on each other
+  const latest = React.useRef(state)
+
+  React.useEffect(() => {
+    latest.current = loadMedicationList()
+    setState(latest.current)
+  }, [])
+
+  // Saved with each change rather than from an effect on `state`: StrictMode
+  // runs mount effects twice, and an effect would write the empty initial
+  // state back before the stored one was read
+  const change = React.useCallback((update: (prev: MedicationListState) => MedicationListState) => {
+    const next = update(latest.current)
+    if (next === latest.current) return
+    latest.current = next
+    setState(next)
+    saveMedicationList(next)
+  }, [])
+
+  const add = React.useCallback((values: MedicationFormValues) => {
+    change((prev) =>
+      prev.medications.length >= MAX_MEDICATIONS
+        ? prev
+        : { ...prev, medications: [...prev.medications, { ...values, id: `med_${Date.now()}` }] }
+    )
+  }, [change])
+
+  const update = React.useCallback((id: string, values: MedicationFormValues) => {
+    change((prev) => ({
+      ...prev,
+      medications: prev.medications.map((medication) => (medication.id === id ? { ...values, id } : medication)),
+    }))
+  }, [change])
+
+  const remove = React.useCallback((id: string) => {
+    change((prev) => ({ ...prev, medications: prev.medications.filter((medication) => medication.id !== id) }))
+  }, [change])
+
+  const setAttachToChat = React.useCallback((attachToChat: boolean) => {
+    change((prev) => ({ ...prev, attachToChat }))
+  }, [change])
+
+  return { ...state, add, update, remove, setAttachToChat }
+}
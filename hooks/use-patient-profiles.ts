@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  EMPTY_PROFILES,
+  loadProfiles,
+  MAX_PROFILES,
+  profileFromForm,
+  saveProfiles,
+  type PatientProfilesState,
+  type ProfileFormValues,
+} from "@/lib/patient-profile"
+
+export function usePatientProfiles() {
+  const [state, setState] = React.useState<PatientProfilesState>(EMPTY_PROFILES)
+  const latest = React.useRef(state)
+
+  React.useEffect(() => {
+    latest.current = loadProfiles()
+    setState(latest.current)
+  }, [])
+
+  // Every change is saved here, as in useMedicationList
+  const change = React.useCallback((update: (prev: PatientProfilesState) => PatientProfilesState) => {
+    const next = update(latest.current)
+    if (next === latest.current) return
+    latest.current = next
+    setState(next)
+    saveProfiles(next)
+  }, [])
+
+  // New profiles become the active one, as they are usually created to ask about that person
+  const add = React.useCallback((values: ProfileFormValues) => {
+    change((prev) => {
+      if (prev.profiles.length >= MAX_PROFILES) return prev
+      const profile = profileFromForm(values, `profile_${Date.now()}`)
+      return { profiles: [...prev.profiles, profile], activeId: profile.id }
+    })
+  }, [change])
+
+  const update = React.useCallback((id: string, values: ProfileFormValues) => {
+    change((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((profile) => (profile.id === id ? profileFromForm(values, id) : profile)),
+    }))
+  }, [change])
+
+  const remove = React.useCallback((id: string) => {
+    change((prev) => ({
+      profiles: prev.profiles.filter((profile) => profile.id !== id),
+      activeId: prev.activeId === id ? null : prev.activeId,
+    }))
+  }, [change])
+
+  const select = React.useCallback((activeId: string | null) => {
+    change((prev) => ({ ...prev, activeId }))
+  }, [change])
+
+  const activeProfile = state.profiles.find((profile) => profile.id === state.activeId) ?? null
+
+  return { ...state, activeProfile, add, update, remove, select }
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  loadSpeechSettings,
+  markdownToSpeech,
+  saveSpeechSettings,
+  speechChunks,
+  type SpeechSettings,
+} from "@/lib/speech-output"
+
+export function useSpeechOutput() {
+  const [supported, setSupported] = React.useState(false)
+  const [voices, setVoices] = React.useState<SpeechSynthesisVoice[]>([])
+  const [settings, setSettings] = React.useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS)
+  // Message being read, if any
+  const [speakingId, setSpeakingId] = React.useState<string | null>(null)
+  const [paused, setPaused] = React.useState(false)
+  const settingsRef = React.useRef(settings)
+  settingsRef.current = settings
+  // Bumped on every speak/stop so callbacks of cancelled utterances are ignored
+  const runRef = React.useRef(0)
+
+  React.useEffect(() => {
+    setSettings(loadSpeechSettings())
+    if (!("speechSynthesis" in window)) return
+    setSupported(true)
+    // Chrome loads voices asynchronously
+    const updateVoices = () => setVoices(window.speechSynthesis.getVoices())
+    updateVoices()
+    window.speechSynthesis.addEventListener("voiceschanged", updateVoices)
+    return () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", updateVoices)
+      window.speechSynthesis.cancel()
+    }
+  }, [])
+
+  // Writes through on each change, so loading the stored settings on mount
+  // never has to race a save of the defaults
+  const updateSettings = React.useCallback((patch: Partial<SpeechSettings>) => {
+    const next = { ...settingsRef.current, ...patch }
+    settingsRef.current = next
+    setSettings(next)
+    saveSpeechSettings(next)
+  }, [])
+
+  const stop = React.useCallback(() => {
+    runRef.current++
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel()
+    setSpeakingId(null)
+    setPaused(false)
+  }, [])
+
+  const speak = React.useCallback(
+    (id: string, markdown: string) => {
+      if (!("speechSynthesis" in window)) return
+      const synth = window.speechSynthesis
+      stop()
+      const chunks = speechChunks(markdownToSpeech(markdown))
+      if (chunks.length === 0) return
+
+      const run = runRef.current
+      const finish = () => {
+        if (runRef.current !== run) return
+        setSpeakingId(null)
+        setPaused(false)
+      }
+      const { rate, voiceURI } = settingsRef.current
+      const voice = synth.getVoices().find((v) => v.voiceURI === voiceURI)
+      chunks.forEach((chunk, index) => {
+        const utterance = new SpeechSynthesisUtterance(chunk)
+        utterance.rate = rate
+        if (voice) {
+          utterance.voice = voice
+          utterance.lang = voice.lang
+        }
+        if (index === chunks.length - 1) utterance.onend = finish
+        utterance.onerror = finish
+        synth.speak(utterance)
+      })
+      // A previous pause() would otherwise hold the new queue too
+      synth.resume()
+      setSpeakingId(id)
+    },
+    [stop]
+  )
+
+  const pause = React.useCallback(() => {
+    window.speechSynthesis?.pause()
+    setPaused(true)
+  }, [])
+
+  const resume = React.useCallback(() => {
+    window.speechSynthesis?.resume()
+    setPaused(false)
+  }, [])
+
+  // Called when an answer has finished streaming
+  const announce = React.useCallback(
+    (id: string, markdown: string) => {
+      if (settingsRef.current.autoRead) speak(id, markdown)
+    },
+    [speak]
+  )
+
+  return { supported, voices, settings, updateSettings, speakingId, paused, speak, pause, resume, stop, announce }
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import * as React from "react"
+
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import { readChatError } from "@/lib/chat-protocol"
+import { CONSENT_HEADER, toConsentToken, type ConsentRecord } from "@/lib/consent"
+import {
+  canRecordAudio,
+  DEFAULT_SPEECH_LANGUAGE,
+  getSpeechRecognition,
+  loadSpeechLanguage,
+  MAX_RECORDING_MS,
+  saveSpeechLanguage,
+  SPEECH_ERROR_MESSAGES,
+  type SpeechLanguage,
+  type SpeechRecognition,
+  type TranscriptionResult,
+} from "@/lib/voice-input"
+
+export type VoiceInputStatus = "idle" | "listening" | "transcribing"
+// "speech": Web Speech API; "upload": recorded and sent to /api/transcribe
+export type VoiceInputMode = "speech" | "upload"
+
+interface VoiceInputOptions {
+  // Called with each finished piece of dictated text
+  onTranscript: (text: string) => void
+  consent: ConsentRecord | null
+}
+
+export function useVoiceInput({ onTranscript, consent }: VoiceInputOptions) {
+  const [mode, setMode] = React.useState<VoiceInputMode | null>(null)
+  const [status, setStatus] = React.useState<VoiceInputStatus>("idle")
+  const [interim, setInterim] = React.useState("")
+  const [startedAt, setStartedAt] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [language, setLanguageState] = React.useState<SpeechLanguage>(DEFAULT_SPEECH_LANGUAGE)
+
+  const recognitionRef = React.useRef<SpeechRecognition | null>(null)
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+  // Set when a recording should be thrown away instead of transcribed
+  const discardRef = React.useRef(false)
+  const limitTimer = React.useRef<ReturnType<typeof setTimeout>>()
+  // Kept in refs so a running recognizer always reports to the latest callbacks
+  const onTranscriptRef = React.useRef(onTranscript)
+  onTranscriptRef.current = onTranscript
+  const consentRef = React.useRef(consent)
+  consentRef.current = consent
+
+  React.useEffect(() => {
+    setLanguageState(loadSpeechLanguage())
+    setMode(getSpeechRecognition() ? "speech" : canRecordAudio() ? "upload" : null)
+    return () => {
+      discardRef.current = true
+      recognitionRef.current?.abort()
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+      clearTimeout(limitTimer.current)
+    }
+  }, [])
+
+  // Only a language the user picks is saved, never the default shown before
+  // the stored one has loaded
+  const setLanguage = React.useCallback((next: SpeechLanguage) => {
+    setLanguageState(next)
+    saveSpeechLanguage(next)
+  }, [])
+
+  const finish = React.useCallback(() => {
+    clearTimeout(limitTimer.current)
+    setStartedAt(null)
+    setInterim("")
+  }, [])
+
+  const upload = React.useCallback(
+    async (audio: Blob) => {
+      setStatus("transcribing")
+      try {
+        const form = new FormData()
+        form.append("audio", audio, "recording")
+        form.append("language", language)
+        const consent = consentRef.current
+        const res = await fetch("/api/transcribe", {
+          method: "POST",
+          headers: consent ? { [CONSENT_HEADER]: toConsentToken(consent) } : undefined,
+          body: form,
+        })
+        if (!res.ok) {
+          const body = await readChatError(res)
+          setError(
+            body?.code === "invalid_request" || body?.code === "payload_too_large"
+              ? body.message
+              : CHAT_ERROR_COPY[body?.code ?? "internal_error"].title
+          )
+          return
+        }
+        const { text } = (await res.json()) as TranscriptionResult
+        if (text) onTranscriptRef.current(text)
+        else setError("No speech was recognised. Try again closer to the microphone.")
+      } catch {
+        setError(CHAT_ERROR_COPY.network_error.title)
+      } finally {
+        setStatus("idle")
+      }
+    },
+    [language]
+  )
+
+  const startSpeech = React.useCallback(() => {
+    const Recognition = getSpeechRecognition()
+    if (!Recognition) return
+    const recognition = new Recognition()
+    recognition.lang = language
+    recognition.continuous = true
+    recognition.interimResults = true
+    recognition.onresult = (event) => {
+      let pending = ""
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (result.isFinal) onTranscriptRef.current(result[0].transcript)
+        else pending += result[0].transcript
+      }
+      setInterim(pending)
+    }
+    recognition.onerror = (event) => {
+      // "aborted" is our own cancel; "no-speech" just ends the session
+      if (event.error === "aborted" || event.error === "no-speech") return
+      setError(SPEECH_ERROR_MESSAGES[event.error] ?? "Dictation stopped unexpectedly. Please try again.")
+    }
+    recognition.onend = () => {
+      recognitionRef.current = null
+      setStatus("idle")
+      finish()
+    }
+    recognitionRef.current = recognition
+    recognition.start()
+    setStatus("listening")
+  }, [language, finish])
+
+  const startRecording = React.useCallback(async () => {
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch {
+      finish()
+      setError(SPEECH_ERROR_MESSAGES["not-allowed"])
+      return
+    }
+    const recorder = new MediaRecorder(stream)
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => event.data.size > 0 && chunks.push(event.data)
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop())
+      recorderRef.current = null
+      finish()
+      if (discardRef.current) setStatus("idle")
+      else upload(new Blob(chunks, { type: recorder.mimeType || "audio/webm" }))
+    }
+    discardRef.current = false
+    recorderRef.current = recorder
+    recorder.start()
+    setStatus("listening")
+  }, [finish, upload])
+
+  const stop = React.useCallback(() => {
+    recognitionRef.current?.stop()
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+  }, [])
+
+  const start = React.useCallback(() => {
+    if (status !== "idle" || !mode) return
+    setError(null)
+    setStartedAt(Date.now())
+    limitTimer.current = setTimeout(stop, MAX_RECORDING_MS)
+    if (mode === "speech") startSpeech()
+    else startRecording()
+  }, [status, mode, startSpeech, startRecording, stop])
+
+  // Stops without using what was said, e.g. when the message is sent mid-dictation
+  const cancel = React.useCallback(() => {
+    discardRef.current = true
+    recognitionRef.current?.abort()
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+  }, [])
+
+  return { mode, status, interim, startedAt, error, language, setLanguage, start, stop, cancel }
+}
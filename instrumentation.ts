@@ -0,0 +1,7 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail fast on a bad backend configuration instead of on the first request
+    const { getBackendConfig } = await import("@/lib/config")
+    getBackendConfig()
+  }
+}
@@ -0,0 +1,121 @@
+// Helpers for reading incremental answers from the MediAssist backend.
+//
+// The backend can answer `/run` in three shapes, picked by its Content-Type:
+//   - text/event-stream     SSE, one `data:` payload per token chunk
+//   - application/x-ndjson  one JSON object per line
+//   - application/json      the whole answer as `{ response }` (buffered mode)
+//
+// Streamed frames may also carry metadata next to (or instead of) a token,
+// e.g. a final `{ "sources": [...] }`; callers receive each decoded object
+// through `onFrame`.
+
+export type FrameHandler = (frame: Record<string, unknown>) => void
+
+export type UpstreamMode = "sse" | "ndjson" | "json"
+
+export function detectUpstreamMode(contentType: string | null): UpstreamMode {
+  const type = (contentType || "").toLowerCase()
+  if (type.includes("text/event-stream")) return "sse"
+  if (type.includes("ndjson") || type.includes("jsonlines")) return "ndjson"
+  return "json"
+}
+
+// Pulls the token text out of a single decoded chunk. Plain strings are taken
+// as-is; objects may carry the text under any of the keys the backend uses.
+function extractToken(payload: unknown): string {
+  if (typeof payload === "string") return payload
+  if (payload && typeof payload === "object") {
+    const record = payload as Record<string, unknown>
+    for (const key of ["token", "delta", "text", "response"]) {
+      if (typeof record[key] === "string") return record[key] as string
+    }
+  }
+  return ""
+}
+
+function parseData(data: string, onFrame?: FrameHandler): string {
+  let payload: unknown
+  try {
+    payload = JSON.parse(data)
+  } catch {
+    return data
+  }
+  if (onFrame && payload && typeof payload === "object" && !Array.isArray(payload)) {
+    onFrame(payload as Record<string, unknown>)
+  }
+  return extractToken(payload)
+}
+
+// Splits a byte stream into text lines, tolerating CRLF endings.
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let newline = buffer.indexOf("\n")
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "")
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf("\n")
+      }
+    }
+    buffer += decoder.decode()
+    if (buffer) yield buffer.replace(/\r$/, "")
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function* readSse(body: ReadableStream<Uint8Array>, onFrame?: FrameHandler): AsyncGenerator<string> {
+  let dataLines: string[] = []
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      // A blank line dispatches the event collected so far
+      if (dataLines.length > 0) {
+        const data = dataLines.join("\n")
+        dataLines = []
+        if (data === "[DONE]") return
+        const token = parseData(data, onFrame)
+        if (token) yield token
+      }
+      continue
+    }
+    if (line.startsWith(":")) continue // comment / keep-alive
+    if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""))
+    }
+  }
+
+  if (dataLines.length > 0) {
+    const data = dataLines.join("\n")
+    if (data !== "[DONE]") {
+      const token = parseData(data, onFrame)
+      if (token) yield token
+    }
+  }
+}
+
+async function* readNdjson(body: ReadableStream<Uint8Array>, onFrame?: FrameHandler): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue
+    const token = parseData(line, onFrame)
+    if (token) yield token
+  }
+}
+
+// Yields answer tokens from a streaming upstream response as they arrive.
+export function readUpstreamTokens(
+  res: Response,
+  mode: Exclude<UpstreamMode, "json">,
+  onFrame?: FrameHandler
+): AsyncGenerator<string> {
+  if (!res.body) throw new Error("Backend returned an empty stream")
+  return mode === "sse" ? readSse(res.body, onFrame) : readNdjson(res.body, onFrame)
+}
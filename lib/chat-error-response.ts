@@ -0,0 +1,23 @@
+import type { ChatErrorBody, ChatErrorCode } from "@/lib/chat-protocol"
+
+// Non-streaming error responses shared by the API routes. Their bodies use
+// the ChatErrorBody shape, so the page reads every failure the same way;
+// routes with their own codes pass their body type, e.g. ShareErrorBody.
+
+const STATUS_FOR_CODE: Partial<Record<ChatErrorCode, number>> = {
+  rate_limited: 429,
+  backend_asleep: 503,
+  timeout: 504,
+}
+
+export function errorResponse<Body extends { error: { code: string; message: string } } = ChatErrorBody>(
+  status: number,
+  error: Body["error"]
+) {
+  return Response.json({ error }, { status })
+}
+
+// HTTP status for a backend failure reported as an UpstreamError
+export function statusForUpstreamCode(code: ChatErrorCode): number {
+  return STATUS_FOR_CODE[code] ?? 502
+}
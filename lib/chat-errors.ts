@@ -0,0 +1,87 @@
+import type { ChatErrorCode } from "@/lib/chat-protocol"
+
+// How each chat failure is presented to the user. Everything here is copy
+// for error bubbles; the codes themselves come from lib/chat-protocol.ts.
+
+export interface ChatErrorCopy {
+  title: string
+  description: string
+  retryable: boolean
+  // Label of the retry button when "Retry" does not describe it
+  retryLabel?: string
+}
+
+export const CHAT_ERROR_COPY: Record<ChatErrorCode, ChatErrorCopy> = {
+  backend_asleep: {
+    title: "The assistant is waking up",
+    description: "The MediAssist service was asleep or restarting. It usually takes under a minute; please retry.",
+    retryable: true,
+  },
+  timeout: {
+    title: "The answer took too long",
+    description: "The service did not respond in time. Retrying often works, or try a shorter question.",
+    retryable: true,
+  },
+  rate_limited: {
+    title: "Too many requests",
+    description: "You have sent a lot of messages in a short time. Wait a moment, then retry.",
+    retryable: true,
+  },
+  payload_too_large: {
+    title: "Image too large",
+    description: "The attached images are too large to send. Remove some or use smaller photos.",
+    retryable: false,
+  },
+  invalid_request: {
+    title: "Message could not be sent",
+    description: "Something in this message is not accepted. Edit it and try again.",
+    retryable: false,
+  },
+  consent_required: {
+    title: "Please accept the terms first",
+    description: "Medi Assist needs your consent before it can send questions to the assistant.",
+    retryable: false,
+  },
+  invalid_json: {
+    title: "Message could not be sent",
+    description: "The message was not sent in a format the server understands.",
+    retryable: false,
+  },
+  backend_error: {
+    title: "The assistant ran into a problem",
+    description: "The MediAssist service returned an error while answering.",
+    retryable: true,
+  },
+  bad_response: {
+    title: "The answer could not be read",
+    description: "The MediAssist service sent a response that could not be displayed.",
+    retryable: true,
+  },
+  session_expired: {
+    title: "This conversation has expired on the server",
+    description:
+      "The assistant no longer has the earlier messages, e.g. after it restarted or when the chat was imported. Replay them to continue with the same context.",
+    retryable: true,
+    retryLabel: "Replay context",
+  },
+  network_error: {
+    title: "You appear to be offline",
+    description: "Check your internet connection, then retry.",
+    retryable: true,
+  },
+  internal_error: {
+    title: "Something went wrong",
+    description: "An unexpected error occurred while sending your message.",
+    retryable: true,
+  },
+}
+
+export class ChatRequestError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = "ChatRequestError"
+  }
+}
@@ -0,0 +1,130 @@
+import { readLines } from "@/lib/backend-stream"
+import type { Source } from "@/lib/citations"
+import type { MedicationContext } from "@/lib/medication-list"
+import type { PatientContext } from "@/lib/patient-profile"
+import type { PrescriptionResult } from "@/lib/prescription"
+
+// Wire format between /api/chat and the page: newline-delimited JSON events.
+// A turn always ends with exactly one `done` or `error` event; `ping` frames
+// only keep idle connections open and never carry message content.
+
+export const CHAT_STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8"
+
+// An attached image as sent to /api/chat: base64 payload without the
+// `data:` prefix, plus its MIME type.
+export interface ChatImage {
+  mimeType: string
+  data: string
+}
+
+export interface ChatRequestBody {
+  query: string
+  sessionId: string | null
+  images: ChatImage[]
+  // The user's medication list, only when they opted in to sharing it
+  medications?: MedicationContext[]
+  // The profile selected in the header switcher, if any
+  patientProfile?: PatientContext
+  // Earlier turns, sent with `sessionId: null` to rebuild context in a new
+  // backend session after the old one expired
+  history?: HistoryTurn[]
+}
+
+export interface HistoryTurn {
+  role: "user" | "assistant"
+  content: string
+}
+
+export type ChatErrorCode =
+  // Rejected by /api/chat before reaching the backend
+  | "invalid_json"
+  | "invalid_request"
+  | "payload_too_large"
+  | "consent_required"
+  // Backend failures, reported in `error` events
+  | "backend_asleep"
+  | "timeout"
+  | "rate_limited"
+  | "backend_error"
+  | "bad_response"
+  // The backend no longer knows the interaction ID, e.g. after a restart
+  | "session_expired"
+  // The page could not reach /api/chat at all
+  | "network_error"
+  | "internal_error"
+
+// JSON body of non-streaming error responses (4xx/5xx) from /api/chat
+export interface ChatErrorBody {
+  error: {
+    code: ChatErrorCode
+    message: string
+    issues?: { path: string; message: string }[]
+  }
+}
+
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "ping" }
+  // `imagesConsidered` holds indices into the request's `images`, or null when
+  // the backend did not say which it looked at; `sources`
+  // are the citations referenced by `[^n]` markers in the answer
+  | {
+      type: "done"
+      sessionId: string
+      imagesConsidered: number[] | null
+      prescription?: PrescriptionResult
+      sources?: Source[]
+    }
+  | { type: "error"; code: ChatErrorCode; message: string }
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([\s\S]*)$/
+
+export function toChatImage(dataUrl: string): ChatImage | null {
+  const match = dataUrl.match(DATA_URL_PATTERN)
+  return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+export function toDataUrl(image: ChatImage): string {
+  return `data:${image.mimeType};base64,${image.data}`
+}
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return JSON.stringify(event) + "\n"
+}
+
+// Reads the structured error of a failed /api/chat response, if it has one
+export async function readChatError(response: Response): Promise<ChatErrorBody["error"] | null> {
+  try {
+    const body = (await response.json()) as Partial<ChatErrorBody>
+    return body.error && typeof body.error.message === "string" ? body.error : null
+  } catch {
+    return null
+  }
+}
+
+function isChatStreamEvent(value: unknown): value is ChatStreamEvent {
+  if (!value || typeof value !== "object") return false
+  const { type } = value as { type?: unknown }
+  return type === "delta" || type === "ping" || type === "done" || type === "error"
+}
+
+// Yields the events of a chat response body in order. Stops after the
+// terminating `done` / `error` event even if the connection stays open.
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue
+
+    let event: unknown
+    try {
+      event = JSON.parse(line)
+    } catch {
+      throw new Error("Malformed chat stream frame")
+    }
+    if (!isChatStreamEvent(event)) continue
+
+    yield event
+    if (event.type === "done" || event.type === "error") return
+  }
+
+  throw new Error("Chat stream ended without a done event")
+}
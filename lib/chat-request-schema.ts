@@ -0,0 +1,65 @@
+import { z } from "zod"
+
+import type { ChatRequestBody } from "@/lib/chat-protocol"
+import { MAX_MEDICATIONS, medicationFormSchema } from "@/lib/medication-list"
+import { patientContextSchema } from "@/lib/patient-profile"
+
+// Server-side validation of POST /api/chat bodies. Issues flagged with
+// `params.status = 413` are size problems and are reported as such.
+
+export const MAX_QUERY_LENGTH = 4000
+// Also the composer's limit, so every attached image reaches the backend
+export const MAX_IMAGES_PER_REQUEST = 5
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+export const MAX_BODY_BYTES = MAX_IMAGES_PER_REQUEST * Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 64 * 1024
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const
+
+const base64Bytes = (data: string) => Math.floor((data.length * 3) / 4)
+
+const imageSchema = z.object({
+  mimeType: z.enum(ALLOWED_IMAGE_TYPES, {
+    errorMap: () => ({ message: `Images must be one of: ${ALLOWED_IMAGE_TYPES.join(", ")}` }),
+  }),
+  data: z
+    .string()
+    .min(1, "Image data is empty")
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, "Image data must be base64 encoded")
+    .refine((data) => base64Bytes(data) <= MAX_IMAGE_BYTES, {
+      message: `Each image must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`,
+      params: { status: 413 },
+    }),
+})
+
+export const MAX_HISTORY_TURNS = 50
+
+const historyTurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(20000, "Earlier messages are too long to replay"),
+})
+
+export const chatRequestSchema = z.object({
+  query: z
+    .string({ required_error: "Query is required" })
+    .trim()
+    .min(1, "Query must not be empty")
+    .max(MAX_QUERY_LENGTH, `Query must be at most ${MAX_QUERY_LENGTH} characters`),
+  sessionId: z
+    .string()
+    .regex(/^[\w.-]{1,128}$/, "Invalid session ID")
+    .nullable()
+    .default(null),
+  images: z
+    .array(imageSchema)
+    .max(MAX_IMAGES_PER_REQUEST, `At most ${MAX_IMAGES_PER_REQUEST} images can be sent at once`)
+    .default([]),
+  medications: z.array(medicationFormSchema).max(MAX_MEDICATIONS, `At most ${MAX_MEDICATIONS} medications can be attached`).optional(),
+  patientProfile: patientContextSchema.optional(),
+  history: z
+    .array(historyTurnSchema)
+    .max(MAX_HISTORY_TURNS, `At most ${MAX_HISTORY_TURNS} earlier messages can be replayed`)
+    .optional(),
+}) satisfies z.ZodType<ChatRequestBody, z.ZodTypeDef, unknown>
+
+export function isTooLargeIssue(issue: z.ZodIssue): boolean {
+  return issue.code === "custom" && issue.params?.status === 413
+}
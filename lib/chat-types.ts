@@ -0,0 +1,42 @@
+import type { ChatErrorCode } from "@/lib/chat-protocol"
+import type { Source } from "@/lib/citations"
+import type { PrescriptionResult } from "@/lib/prescription"
+
+export interface Message {
+  id: string
+  // Previous message in the conversation tree; null for the first turn
+  parentId?: string | null
+  role: "user" | "assistant"
+  content: string
+  images?: string[]
+  // Indices into `images` the assistant actually looked at; null when the
+  // backend did not report it
+  imagesConsidered?: number[] | null
+  // Set on assistant bubbles that stand in for a failed answer
+  error?: { code: ChatErrorCode; retryOf: string }
+  // The user stopped this answer before it finished
+  stopped?: boolean
+  // Structured result when the answer is a prescription analysis
+  prescription?: PrescriptionResult
+  // Citations for the footnote markers in `content`
+  sources?: Source[]
+  // Backend interaction that produced this answer; follow-ups on the same
+  // branch continue it
+  sessionId?: string
+  timestamp: Date
+}
+
+// A saved chat, keyed by a local ID (chats saved before answers recorded
+// their `sessionId` are keyed by the backend interaction ID instead).
+// `messages` holds every branch; `selection` is the active path (see
+// lib/message-tree.ts) and is missing on conversations saved before branching.
+export interface Conversation {
+  id: string
+  title: string
+  messages: Message[]
+  selection?: Record<string, string>
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ConversationSummary = Omit<Conversation, "messages">
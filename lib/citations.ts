@@ -0,0 +1,58 @@
+import { z } from "zod"
+
+// Source citations. The backend may return `sources` next to its answer and
+// refer to them in the text with markers such as `[^1]` or `[1]` (1-based).
+// The chat route validates the list; the page turns markers into footnotes.
+
+export const sourceSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  // null for placeholders standing in for invalid entries (see parseSources)
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Only http(s) links are shown")
+    .nullable(),
+  snippet: z.string().max(1000).default(""),
+})
+
+export type Source = z.infer<typeof sourceSchema>
+
+export const MAX_SOURCES = 20
+
+// Valid entries of an untrusted `sources` value. Invalid entries are blanked
+// rather than dropped so the numbering in the answer text still lines up.
+export function parseSources(value: unknown): Source[] {
+  if (!Array.isArray(value)) return []
+  const sources = value.slice(0, MAX_SOURCES).map((entry) => sourceSchema.safeParse(entry))
+  if (!sources.some((source) => source.success)) return []
+  return sources.map((source) => (source.success ? source.data : { title: "Unavailable source", url: null, snippet: "" }))
+}
+
+export const CITATION_HREF_PREFIX = "#cite-"
+
+const MARKER = /\[\^?(\d{1,2})\]/g
+
+// Rewrites markers that point at an existing source into links to
+// `#cite-<n>`, which the markdown renderer shows as footnotes. Code is left
+// untouched, as are numbers outside the source list (e.g. "[2024]").
+export function linkCitations(markdown: string, sourceCount: number): string {
+  if (sourceCount === 0) return markdown
+  return markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part.replace(MARKER, (marker, n: string) =>
+            Number(n) >= 1 && Number(n) <= sourceCount ? `[${n}](${CITATION_HREF_PREFIX}${n})` : marker
+          )
+    )
+    .join("")
+}
+
+export function sourceHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "")
+  } catch {
+    return ""
+  }
+}
@@ -0,0 +1,105 @@
+import { z } from "zod"
+
+// Server-side configuration for the MediAssist backend, read from the
+// environment. Validated once; invalid values fail the server at startup
+// (see instrumentation.ts) rather than on the first chat request.
+
+const DEFAULT_BACKEND_URL = "https://mediassist-5eke.onrender.com"
+
+const envSchema = z.object({
+  MEDIASSIST_BACKEND_URL: z
+    .string()
+    .url()
+    .default(DEFAULT_BACKEND_URL)
+    .transform((url) => url.replace(/\/+$/, "")),
+  // Total wait for the backend to start answering, shared by all retries.
+  // Keep below the API routes' maxDuration (30s)
+  MEDIASSIST_TIMEOUT_MS: z.coerce.number().int().positive().default(25000),
+  MEDIASSIST_RETRIES: z.coerce.number().int().min(0).max(5).default(1),
+  MEDIASSIST_API_KEY: z.string().min(1).optional(),
+  MEDIASSIST_AUTH_HEADER: z
+    .string()
+    .regex(/^[A-Za-z0-9-]+$/, "must be a valid HTTP header name")
+    .default("Authorization"),
+  // Serve /run from the bundled mock backend (lib/mock-backend.ts)
+  MEDIASSIST_USE_MOCK: z
+    .enum(["true", "false", "1", "0"])
+    .default("false")
+    .transform((value) => value === "true" || value === "1"),
+  // Where shared conversation snapshots are kept (lib/share-store.ts)
+  MEDIASSIST_SHARE_STORAGE: z.enum(["fs"]).default("fs"),
+  MEDIASSIST_SHARE_DIR: z.string().default(".shares"),
+  // New shares are refused once stored ones take up this much
+  MEDIASSIST_SHARE_MAX_BYTES: z.coerce.number().int().positive().default(500 * 1024 * 1024),
+  // Reverse proxies in front of the app that append to X-Forwarded-For. The
+  // client address is read that many entries from the end, where a client
+  // cannot forge it. With 0 the header is ignored and per-client limits
+  // (share links) apply to all clients together.
+  MEDIASSIST_TRUSTED_PROXIES: z.coerce.number().int().min(0).max(10).default(0),
+  NODE_ENV: z.string().default("development"),
+})
+
+export interface BackendConfig {
+  baseUrl: string
+  timeoutMs: number
+  retries: number
+  authHeaders: Record<string, string>
+  useMock: boolean
+  trustedProxies: number
+  share: { storage: "fs"; dir: string; maxBytes: number }
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConfigError"
+  }
+}
+
+// Empty strings in .env files mean "unset", not "invalid"
+function readEnv(env: NodeJS.ProcessEnv): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(envSchema.shape)
+      .filter((key) => env[key] !== undefined && env[key] !== "")
+      .map((key) => [key, env[key] as string])
+  )
+}
+
+export function parseBackendConfig(env: NodeJS.ProcessEnv): BackendConfig {
+  const result = envSchema.safeParse(readEnv(env))
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`).join("\n")
+    throw new ConfigError(`Invalid MediAssist backend configuration:\n${issues}`)
+  }
+
+  if (result.data.MEDIASSIST_USE_MOCK && result.data.NODE_ENV === "production") {
+    throw new ConfigError("MEDIASSIST_USE_MOCK is only allowed in development and test")
+  }
+
+  const { MEDIASSIST_API_KEY: apiKey, MEDIASSIST_AUTH_HEADER: authHeader } = result.data
+  const authHeaders: Record<string, string> = {}
+  if (apiKey) {
+    authHeaders[authHeader] = authHeader.toLowerCase() === "authorization" ? `Bearer ${apiKey}` : apiKey
+  }
+
+  return {
+    baseUrl: result.data.MEDIASSIST_BACKEND_URL,
+    timeoutMs: result.data.MEDIASSIST_TIMEOUT_MS,
+    retries: result.data.MEDIASSIST_RETRIES,
+    authHeaders,
+    useMock: result.data.MEDIASSIST_USE_MOCK,
+    trustedProxies: result.data.MEDIASSIST_TRUSTED_PROXIES,
+    share: {
+      storage: result.data.MEDIASSIST_SHARE_STORAGE,
+      dir: result.data.MEDIASSIST_SHARE_DIR,
+      maxBytes: result.data.MEDIASSIST_SHARE_MAX_BYTES,
+    },
+  }
+}
+
+let cachedConfig: BackendConfig | null = null
+
+export function getBackendConfig(): BackendConfig {
+  if (!cachedConfig) cachedConfig = parseBackendConfig(process.env)
+  return cachedConfig
+}
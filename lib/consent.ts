@@ -0,0 +1,54 @@
+import { z } from "zod"
+
+// First-run disclaimer and consent. The accepted terms version is kept in
+// localStorage; bumping TERMS_VERSION re-prompts everyone. API routes that
+// forward user content to the backend refuse requests without a consent
+// token for the current version.
+
+// Change whenever the wording of the consent dialog changes in substance
+export const TERMS_VERSION = "2026-10-18"
+
+export const CONSENT_HEADER = "X-Consent-Token"
+
+export interface ConsentRecord {
+  version: string
+  acceptedAt: string
+}
+
+const STORAGE_KEY = "medi-assist:consent"
+
+const consentRecordSchema = z.object({
+  version: z.string(),
+  acceptedAt: z.string().datetime(),
+})
+
+// The stored consent, or null when missing, unreadable or for older terms
+export function loadConsent(): ConsentRecord | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const parsed = consentRecordSchema.safeParse(JSON.parse(raw))
+    return parsed.success && parsed.data.version === TERMS_VERSION ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+export function saveConsent(record: ConsentRecord) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(record))
+}
+
+export function clearConsent() {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// Sent as X-Consent-Token, e.g. "2026-10-18;2026-10-18T09:30:00.000Z"
+export function toConsentToken(record: ConsentRecord): string {
+  return `${record.version};${record.acceptedAt}`
+}
+
+// Server side: whether the request carries consent to the current terms
+export function hasValidConsent(req: Request): boolean {
+  const [version, acceptedAt] = (req.headers.get(CONSENT_HEADER) ?? "").split(";")
+  return version === TERMS_VERSION && consentRecordSchema.shape.acceptedAt.safeParse(acceptedAt).success
+}
@@ -0,0 +1,87 @@
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import type { Message } from "@/lib/chat-types"
+import type { MessageTree } from "@/lib/message-tree"
+
+// Conversation exports for handing transcripts to clinicians. Markdown and
+// the printed PDF cover the visible conversation; the JSON format keeps the
+// whole message tree so it can be imported again and continued.
+
+export const EXPORT_FORMAT = "medi-assist/conversation"
+// Bump when the JSON shape changes incompatibly, and teach the importer the old one
+export const EXPORT_VERSION = 1
+
+export interface ExportedMessage extends Omit<Message, "timestamp"> {
+  // ISO 8601
+  timestamp: string
+}
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT
+  version: typeof EXPORT_VERSION
+  exportedAt: string
+  // Backend interaction ID; null when the conversation never got an answer
+  sessionId: string | null
+  title: string
+  messages: ExportedMessage[]
+  selection: Record<string, string>
+}
+
+export interface ExportContext {
+  sessionId: string | null
+  title: string
+}
+
+export function conversationToJson(tree: MessageTree, context: ExportContext): string {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessionId: context.sessionId,
+    title: context.title,
+    messages: tree.nodes.map((message) => ({ ...message, timestamp: message.timestamp.toISOString() })),
+    selection: tree.selection,
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+export const formatTimestamp = (date: Date) =>
+  date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+
+function messageToMarkdown(message: Message): string {
+  const author = message.role === "user" ? "You" : "Medi Assist"
+  const lines = [`### ${author} — ${formatTimestamp(message.timestamp)}`, ""]
+
+  if (message.error) {
+    lines.push(`_No answer: ${CHAT_ERROR_COPY[message.error.code].title}_`)
+    return lines.join("\n")
+  }
+  // Images stay out of the text file; the PDF export includes them
+  if (message.images?.length) {
+    lines.push(`_${message.images.length} image${message.images.length > 1 ? "s" : ""} attached_`, "")
+  }
+  lines.push(message.content)
+  if (message.stopped) lines.push("", "_Response stopped_")
+  if (message.sources?.length) {
+    const links = message.sources.map((source) => (source.url ? `[${source.title}](${source.url})` : source.title))
+    lines.push("", "Sources:", ...links.map((link, i) => `${i + 1}. ${link}`))
+  }
+  return lines.join("\n")
+}
+
+// The messages of the visible branch, oldest first
+export function conversationToMarkdown(messages: Message[], context: ExportContext): string {
+  const header = [
+    `# ${context.title}`,
+    "",
+    `- Interaction ID: ${context.sessionId ?? "not assigned"}`,
+    `- Exported: ${formatTimestamp(new Date())}`,
+    "",
+    "> Medi Assist provides general information, not medical advice.",
+  ]
+  return [header.join("\n"), ...messages.map(messageToMarkdown)].join("\n\n---\n\n") + "\n"
+}
+
+// File name stem shared by all formats, e.g. "medi-assist-int_123"
+export function exportFileName(context: ExportContext): string {
+  return `medi-assist-${context.sessionId ?? new Date().toISOString().slice(0, 10)}`.replace(/[^\w.-]+/g, "-")
+}
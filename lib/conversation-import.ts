@@ -0,0 +1,108 @@
+import { z } from "zod"
+
+import { CHAT_ERROR_COPY } from "@/lib/chat-errors"
+import type { ChatErrorCode } from "@/lib/chat-protocol"
+import type { Message } from "@/lib/chat-types"
+import { sourceSchema } from "@/lib/citations"
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/conversation-export"
+import { ROOT, type MessageTree } from "@/lib/message-tree"
+import { prescriptionResultSchema } from "@/lib/prescription"
+
+// Reads conversation files written by conversationToJson. Everything is
+// validated: files travel between machines and people, and a bad one must
+// not end up in IndexedDB or in a request to the backend.
+
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConversationImportError"
+  }
+}
+
+const CHAT_ERROR_CODES = Object.keys(CHAT_ERROR_COPY) as [ChatErrorCode, ...ChatErrorCode[]]
+
+export const exportedMessageSchema = z.object({
+  id: z.string().min(1).max(100),
+  parentId: z.string().nullable().optional(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  images: z.array(z.string().regex(/^data:image\/[\w.+-]+;base64,/, "Images must be embedded data URLs")).optional(),
+  imagesConsidered: z.array(z.number().int().nonnegative()).nullable().optional(),
+  // Codes this version does not know are shown as a generic failure
+  error: z.object({ code: z.enum(CHAT_ERROR_CODES).catch("internal_error"), retryOf: z.string() }).optional(),
+  stopped: z.boolean().optional(),
+  prescription: prescriptionResultSchema.optional(),
+  sources: z.array(sourceSchema).optional(),
+  sessionId: z
+    .string()
+    .regex(/^[\w.-]{1,128}$/)
+    .optional(),
+  timestamp: z.string().datetime({ offset: true }).transform((value) => new Date(value)),
+})
+
+export const conversationExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT, { errorMap: () => ({ message: "This is not a Medi Assist conversation file" }) }),
+  version: z.literal(EXPORT_VERSION, {
+    errorMap: () => ({ message: `Unsupported file version; this app reads version ${EXPORT_VERSION}` }),
+  }),
+  exportedAt: z.string(),
+  sessionId: z
+    .string()
+    .regex(/^[\w.-]{1,128}$/)
+    .nullable(),
+  title: z.string().trim().min(1).max(200).catch("Imported conversation"),
+  messages: z.array(exportedMessageSchema).min(1, "The file has no messages"),
+  selection: z.record(z.string()).default({}),
+})
+
+// The file's top-level `sessionId` is not carried over: each answer records
+// the session its branch continues
+export interface ImportedConversation {
+  title: string
+  tree: MessageTree
+}
+
+// Rejects files whose messages do not form a tree, e.g. hand-edited ones
+function checkTree(messages: Message[], selection: Record<string, string>) {
+  const ids = new Set(messages.map((message) => message.id))
+  if (ids.size !== messages.length) throw new ConversationImportError("The file has duplicate message IDs")
+  for (const message of messages) {
+    if (message.parentId && !ids.has(message.parentId)) {
+      throw new ConversationImportError("The file refers to messages that are missing")
+    }
+  }
+  for (const [parent, child] of Object.entries(selection)) {
+    if ((parent !== ROOT && !ids.has(parent)) || !ids.has(child)) {
+      throw new ConversationImportError("The file's branch selection refers to missing messages")
+    }
+  }
+}
+
+export function parseConversationExport(text: string): ImportedConversation {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ConversationImportError("The file is not valid JSON")
+  }
+
+  const parsed = conversationExportSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const where = issue.path.length > 0 ? ` (at ${issue.path.join(".")})` : ""
+    throw new ConversationImportError(`${issue.message}${where}`)
+  }
+
+  const { title, messages, selection } = parsed.data
+  checkTree(messages, selection)
+  return { title, tree: { nodes: messages, selection } }
+}
+
+export async function readConversationFile(file: File): Promise<ImportedConversation> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ConversationImportError(`The file is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`)
+  }
+  return parseConversationExport(await file.text())
+}
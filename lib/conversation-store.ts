@@ -0,0 +1,95 @@
+import type { Conversation, ConversationSummary } from "@/lib/chat-types"
+import type { MessageTree } from "@/lib/message-tree"
+
+// IndexedDB persistence for past conversations. Records are stored as-is;
+// structured cloning keeps `Date` fields and image data URLs intact.
+
+const DB_NAME = "medi-assist"
+const DB_VERSION = 1
+const STORE = "conversations"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" })
+        store.createIndex("updatedAt", "updatedAt")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)))
+}
+
+// Most recently updated first
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const all = await withStore("readonly", (store) => store.getAll() as IDBRequest<Conversation[]>)
+  return all
+    .map(({ messages: _messages, selection: _selection, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+export const newConversationId = () => `conversation_${Date.now()}`
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  return withStore("readonly", (store) => store.get(id) as IDBRequest<Conversation | undefined>)
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore("readwrite", (store) => store.put(conversation))
+}
+
+// Stores the latest message tree, keeping the title and creation time of an
+// existing record
+export async function upsertConversation(id: string, tree: MessageTree): Promise<void> {
+  const existing = await getConversation(id)
+  const now = new Date()
+  await saveConversation({
+    id,
+    title: existing?.title ?? titleFromMessages(tree.nodes),
+    messages: tree.nodes,
+    selection: tree.selection,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  })
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const conversation = await getConversation(id)
+  if (!conversation) return
+  await saveConversation({ ...conversation, title })
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+const TITLE_LENGTH = 60
+
+// Default title: the first user message, cut at a word boundary
+export function titleFromMessages(messages: Conversation["messages"]): string {
+  const first = messages.find((msg) => msg.role === "user")?.content.trim().replace(/\s+/g, " ")
+  if (!first) return "New conversation"
+  if (first.length <= TITLE_LENGTH) return first
+  const cut = first.slice(0, TITLE_LENGTH)
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 20 ? cut.lastIndexOf(" ") : TITLE_LENGTH)}…`
+}
@@ -0,0 +1,13 @@
+// Saves `content` as a file through a temporary link. The object URL is kept
+// for a while after the click: revoking it straight away can cancel the
+// download in Safari.
+const REVOKE_DELAY_MS = 60_000
+
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
@@ -0,0 +1,118 @@
+import { z } from "zod"
+
+// Structured drug–drug interaction checks. The page posts the selected drug
+// names to /api/interactions, which asks the backend's `/interactions`
+// endpoint and answers with one entry per unordered pair of drugs.
+
+export const MIN_INTERACTION_DRUGS = 2
+export const MAX_INTERACTION_DRUGS = 8
+
+// Ordered from least to most serious; `unknown` means the backend had no data
+export const SEVERITIES = ["unknown", "none", "minor", "moderate", "major", "contraindicated"] as const
+export type Severity = (typeof SEVERITIES)[number]
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  unknown: "No data",
+  none: "No interaction",
+  minor: "Minor",
+  moderate: "Moderate",
+  major: "Major",
+  contraindicated: "Avoid combining",
+}
+
+export const interactionRequestSchema = z.object({
+  drugs: z
+    .array(z.string().trim().min(1, "Drug names must not be empty").max(100))
+    .min(MIN_INTERACTION_DRUGS, `Pick at least ${MIN_INTERACTION_DRUGS} drugs`)
+    .max(MAX_INTERACTION_DRUGS, `Pick at most ${MAX_INTERACTION_DRUGS} drugs`)
+    .refine((drugs) => new Set(drugs.map((d) => d.toLowerCase())).size === drugs.length, "Each drug can only be picked once"),
+})
+
+export type InteractionRequestBody = z.infer<typeof interactionRequestSchema>
+
+export interface InteractionPair {
+  a: string
+  b: string
+  severity: Severity
+  explanation: string
+}
+
+// Response body of POST /api/interactions
+export interface InteractionResult {
+  drugs: string[]
+  pairs: InteractionPair[]
+}
+
+// Upstream `/interactions` response: { interactions: [{ drug_a, drug_b, severity, explanation }] }
+export const upstreamInteractionsSchema = z.object({
+  interactions: z.array(
+    z.object({
+      drug_a: z.string(),
+      drug_b: z.string(),
+      severity: z
+        .string()
+        .transform((value) => value.toLowerCase())
+        .pipe(z.enum(SEVERITIES).catch("unknown")),
+      explanation: z.string().default(""),
+    })
+  ),
+})
+
+export const pairKey = (a: string, b: string) => [a.toLowerCase(), b.toLowerCase()].sort().join("\u0000")
+
+// One entry per unordered pair of `drugs`, in picking order. Pairs the
+// backend did not mention are reported as `unknown` rather than dropped.
+export function buildInteractionResult(
+  drugs: string[],
+  interactions: z.infer<typeof upstreamInteractionsSchema>["interactions"]
+): InteractionResult {
+  const found = new Map(interactions.map((i) => [pairKey(i.drug_a, i.drug_b), i]))
+  const pairs: InteractionPair[] = []
+  for (let i = 0; i < drugs.length; i++) {
+    for (let j = i + 1; j < drugs.length; j++) {
+      const match = found.get(pairKey(drugs[i], drugs[j]))
+      pairs.push({
+        a: drugs[i],
+        b: drugs[j],
+        severity: match?.severity ?? "unknown",
+        explanation: match?.explanation ?? "",
+      })
+    }
+  }
+  return { drugs, pairs }
+}
+
+// Autocomplete suggestions offered before the user types a name of their own
+export const COMMON_DRUGS = [
+  "Acetaminophen",
+  "Alprazolam",
+  "Amlodipine",
+  "Amoxicillin",
+  "Aspirin",
+  "Atorvastatin",
+  "Azithromycin",
+  "Cetirizine",
+  "Ciprofloxacin",
+  "Citalopram",
+  "Clarithromycin",
+  "Clopidogrel",
+  "Digoxin",
+  "Fluconazole",
+  "Fluoxetine",
+  "Ibuprofen",
+  "Levothyroxine",
+  "Lisinopril",
+  "Losartan",
+  "Metformin",
+  "Methotrexate",
+  "Metoprolol",
+  "Naproxen",
+  "Omeprazole",
+  "Prednisone",
+  "Sertraline",
+  "Sildenafil",
+  "Simvastatin",
+  "Spironolactone",
+  "Tramadol",
+  "Warfarin",
+]
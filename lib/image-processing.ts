@@ -0,0 +1,98 @@
+// Client-side preprocessing for images attached to a chat turn.
+//
+// Every image is decoded with its EXIF orientation applied, drawn onto a
+// canvas (which drops all EXIF metadata, including GPS), downscaled to
+// IMAGE_MAX_DIMENSION and re-encoded as WebP, or JPEG where the browser
+// cannot encode WebP. Quality and size are stepped down until the image fits
+// in what is left of the per-turn byte budget.
+
+export const IMAGE_MAX_DIMENSION = 1600
+export const IMAGE_TURN_BUDGET = 4 * 1024 * 1024 // bytes of encoded image data per turn
+
+const QUALITY_STEPS = [0.85, 0.7, 0.55]
+const SCALE_STEPS = [1, 0.75, 0.5]
+
+export interface ProcessedImage {
+  dataUrl: string
+  bytes: number
+  width: number
+  height: number
+}
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImageProcessingError"
+  }
+}
+
+// Decoded size of a base64 data URL, without allocating the bytes
+export function dataUrlBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1)
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0
+  return Math.floor((base64.length * 3) / 4) - padding
+}
+
+async function decode(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" })
+  } catch {
+    throw new ImageProcessingError("This image could not be read. Try a JPEG or PNG file.")
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality))
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+async function encode(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  // Browsers without a WebP encoder silently fall back to PNG
+  const webp = await toBlob(canvas, "image/webp", quality)
+  if (webp && webp.type === "image/webp") return webp
+  const jpeg = await toBlob(canvas, "image/jpeg", quality)
+  if (!jpeg) throw new ImageProcessingError("This image could not be compressed.")
+  return jpeg
+}
+
+export async function preprocessImage(file: Blob, maxBytes: number = IMAGE_TURN_BUDGET): Promise<ProcessedImage> {
+  if (maxBytes <= 0) {
+    throw new ImageProcessingError("The image limit for this message has been reached. Send it before adding more.")
+  }
+
+  const bitmap = await decode(file)
+  const fit = Math.min(1, IMAGE_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  const context = canvas.getContext("2d")
+  if (!context) throw new ImageProcessingError("Image processing is not supported in this browser.")
+
+  try {
+    for (const scale of SCALE_STEPS) {
+      canvas.width = Math.max(1, Math.round(bitmap.width * fit * scale))
+      canvas.height = Math.max(1, Math.round(bitmap.height * fit * scale))
+      // JPEG has no alpha channel; avoid transparent areas turning black
+      context.fillStyle = "#fff"
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+      for (const quality of QUALITY_STEPS) {
+        const blob = await encode(canvas, quality)
+        if (blob.size <= maxBytes) {
+          return { dataUrl: await readAsDataUrl(blob), bytes: blob.size, width: canvas.width, height: canvas.height }
+        }
+      }
+    }
+  } finally {
+    bitmap.close()
+  }
+
+  throw new ImageProcessingError("This image is too large to send, even after compression.")
+}
@@ -0,0 +1,181 @@
+import { toDataUrl, type ChatErrorCode, type ChatImage, type HistoryTurn } from "@/lib/chat-protocol"
+import type { MedicationContext } from "@/lib/medication-list"
+import type { PatientContext } from "@/lib/patient-profile"
+import type { RedFlagCategory } from "@/lib/red-flags"
+import { getBackendConfig, type BackendConfig } from "@/lib/config"
+import { mockFetch } from "@/lib/mock-backend"
+
+// Thin client for the MediAssist backend `/run`, `/interactions` and
+// `/transcribe` endpoints, used by the API routes. Applies the configured timeout, auth
+// headers and retries; the response body is handed back untouched so callers
+// can stream it.
+
+export interface RunRequest {
+  query: string
+  sessionId: string
+  images: ChatImage[]
+  medications?: MedicationContext[]
+  patientProfile?: PatientContext
+  // Emergency categories detected in the query, so the backend can prioritise urgent-care advice
+  redFlags?: RedFlagCategory[]
+  // Earlier turns to seed a new session with
+  history?: HistoryTurn[]
+  // Sent as X-Interaction-ID when resuming a known conversation
+  interactionId?: string | null
+  // Aborts the upstream request, e.g. when the user presses Stop
+  signal?: AbortSignal
+}
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly code: ChatErrorCode,
+    readonly status?: number
+  ) {
+    super(message)
+    this.name = "UpstreamError"
+  }
+}
+
+// The backend expects snake_case keys, like the rest of its `/run` contract
+function toPatientProfilePayload({ weightKg, ...profile }: PatientContext) {
+  return { ...profile, weight_kg: weightKg }
+}
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+const RETRY_BASE_DELAY = 500
+
+function codeForStatus(status: number): ChatErrorCode {
+  if (status === 429) return "rate_limited"
+  if (RETRYABLE_STATUSES.has(status)) return "backend_asleep"
+  return "backend_error"
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+// One POST to the backend; `path` is relative to the configured base URL
+interface UpstreamCall {
+  path: string
+  accept: string
+  body: unknown
+  headers?: Record<string, string>
+  signal?: AbortSignal
+}
+
+async function attempt(config: BackendConfig, call: UpstreamCall, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const cancel = () => controller.abort(call.signal?.reason)
+  call.signal?.addEventListener("abort", cancel, { once: true })
+
+  const doFetch = config.useMock ? mockFetch : fetch
+
+  try {
+    return await doFetch(`${config.baseUrl}${call.path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: call.accept,
+        ...config.authHeaders,
+        ...call.headers,
+      },
+      body: JSON.stringify(call.body),
+      signal: controller.signal,
+    })
+  } catch (err) {
+    // Cancellation is not a backend failure; let the abort reason through
+    if (call.signal?.aborted) throw err
+    if (controller.signal.aborted) throw new UpstreamError(`Backend timed out after ${timeoutMs}ms`, "timeout")
+    // The hosted backend refuses connections while it spins up
+    throw new UpstreamError(`Backend unreachable: ${(err as Error).message}`, "backend_asleep")
+  } finally {
+    // Only the wait for response headers is timed; streaming may take longer
+    clearTimeout(timer)
+  }
+}
+
+async function callWithRetries(call: UpstreamCall): Promise<Response> {
+  const config = getBackendConfig()
+  // Attempts and backoff share one budget, so retries cannot outlast maxDuration
+  const deadline = Date.now() + config.timeoutMs
+  let lastError: UpstreamError | null = null
+
+  for (let i = 0; i <= config.retries; i++) {
+    if (i > 0) {
+      const delay = RETRY_BASE_DELAY * 2 ** (i - 1)
+      if (deadline - Date.now() <= delay) break
+      await sleep(delay)
+    }
+    call.signal?.throwIfAborted()
+
+    let res: Response
+    try {
+      res = await attempt(config, call, deadline - Date.now())
+    } catch (err) {
+      lastError = err as UpstreamError
+      continue
+    }
+
+    if (res.ok) return res
+    lastError = new UpstreamError(`Backend error: ${res.status}`, codeForStatus(res.status), res.status)
+    if (!RETRYABLE_STATUSES.has(res.status)) throw lastError
+  }
+
+  throw lastError ?? new UpstreamError("Backend request failed", "backend_error")
+}
+
+// Statuses the backend uses for an interaction ID it does not know
+const UNKNOWN_SESSION_STATUSES = new Set([404, 410])
+
+export async function runQuery(request: RunRequest): Promise<Response> {
+  const call = callWithRetries({
+    path: "/run",
+    accept: "text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8",
+    headers: request.interactionId ? { "X-Interaction-ID": request.interactionId } : undefined,
+    body: {
+      query: request.query,
+      session_id: request.sessionId,
+      // Older backends only read the single `img_base64` field
+      img_base64: request.images[0] ? toDataUrl(request.images[0]) : null,
+      images: request.images.map((image) => ({ mime_type: image.mimeType, img_base64: toDataUrl(image) })),
+      ...(request.medications && { medications: request.medications }),
+      ...(request.patientProfile && { patient_profile: toPatientProfilePayload(request.patientProfile) }),
+      ...(request.redFlags?.length && { red_flags: request.redFlags }),
+      ...(request.history && { history: request.history }),
+    },
+    signal: request.signal,
+  })
+
+  try {
+    return await call
+  } catch (err) {
+    if (err instanceof UpstreamError && request.interactionId && UNKNOWN_SESSION_STATUSES.has(err.status ?? 0)) {
+      throw new UpstreamError(`Backend does not know session ${request.interactionId}`, "session_expired", err.status)
+    }
+    throw err
+  }
+}
+
+// Pairwise interaction lookup for the interaction checker; answers with JSON
+export function checkInteractions(drugs: string[], signal?: AbortSignal): Promise<Response> {
+  return callWithRetries({ path: "/interactions", accept: "application/json", body: { drugs }, signal })
+}
+
+export interface TranscribeRequest {
+  // Base64 without a `data:` prefix
+  audio: string
+  mimeType: string
+  // BCP 47 tag, e.g. "en-US"
+  language: string
+  signal?: AbortSignal
+}
+
+// Speech-to-text for browsers without the Web Speech API; answers with JSON
+export function transcribeAudio(request: TranscribeRequest): Promise<Response> {
+  return callWithRetries({
+    path: "/transcribe",
+    accept: "application/json",
+    body: { audio_base64: request.audio, mime_type: request.mimeType, language: request.language },
+    signal: request.signal,
+  })
+}
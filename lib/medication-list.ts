@@ -0,0 +1,57 @@
+import { z } from "zod"
+
+// The user's personal medication list ("My medications"). Kept in
+// localStorage on this device only and, when the user opts in, attached to
+// each chat request as structured context.
+
+export const MAX_MEDICATIONS = 50
+
+export const medicationFormSchema = z.object({
+  name: z.string().trim().min(1, "Enter the medicine name").max(100),
+  dose: z.string().trim().max(50).default(""),
+  frequency: z.string().trim().max(100).default(""),
+  notes: z.string().trim().max(200).default(""),
+})
+
+export type MedicationFormValues = z.infer<typeof medicationFormSchema>
+
+export interface Medication extends MedicationFormValues {
+  id: string
+}
+
+export interface MedicationListState {
+  medications: Medication[]
+  // Opt-in: send the list with every question
+  attachToChat: boolean
+}
+
+// What travels with a chat request; ids stay on the device
+export type MedicationContext = MedicationFormValues
+
+const STORAGE_KEY = "medi-assist:medications"
+
+const storedSchema = z.object({
+  medications: z.array(medicationFormSchema.extend({ id: z.string() })).max(MAX_MEDICATIONS),
+  attachToChat: z.boolean(),
+})
+
+export const EMPTY_MEDICATION_LIST: MedicationListState = { medications: [], attachToChat: false }
+
+export function loadMedicationList(): MedicationListState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return EMPTY_MEDICATION_LIST
+    const parsed = storedSchema.safeParse(JSON.parse(raw))
+    return parsed.success ? parsed.data : EMPTY_MEDICATION_LIST
+  } catch {
+    return EMPTY_MEDICATION_LIST
+  }
+}
+
+export function saveMedicationList(state: MedicationListState) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+}
+
+export function toMedicationContext(medications: Medication[]): MedicationContext[] {
+  return medications.map(({ id: _id, ...medication }) => medication)
+}
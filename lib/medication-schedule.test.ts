@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+
+import { parseFrequency } from "@/lib/medication-schedule"
+
+describe("parseFrequency", () => {
+  it("reads explicit daily counts", () => {
+    expect(parseFrequency("take one tablet three times a day").times).toEqual(["08:00", "14:00", "20:00"])
+    expect(parseFrequency("BID").times).toEqual(["08:00", "20:00"])
+    expect(parseFrequency("1-0-1").times).toEqual(["08:00", "20:00"])
+    expect(parseFrequency("every 6 hours").times).toHaveLength(4)
+  })
+
+  it("keeps a course length in weeks daily", () => {
+    expect(parseFrequency("Once daily for 2 weeks")).toMatchObject({
+      times: ["08:00"],
+      recurrence: "daily",
+      guessed: false,
+    })
+  })
+
+  it("schedules weekly doses only for weekly wording", () => {
+    expect(parseFrequency("once a week")).toMatchObject({ recurrence: "weekly", guessed: false })
+    expect(parseFrequency("1 tablet weekly")).toMatchObject({ recurrence: "weekly", guessed: false })
+  })
+
+  it("matches night only as a whole word", () => {
+    expect(parseFrequency("morning and night").times).toEqual(["08:30", "22:00"])
+    expect(parseFrequency("once daily for 3 months")).toMatchObject({ times: ["08:00"], guessed: false })
+  })
+
+  it.each(["once a fortnight", "monthly", "twice a week", "3 times a week", "every other day", "every 3 days"])(
+    "flags %s as guessed",
+    (frequency) => {
+      expect(parseFrequency(frequency)).toMatchObject({ times: ["08:00"], recurrence: "daily", guessed: true })
+    }
+  )
+
+  it("leaves as-needed medicines unscheduled", () => {
+    expect(parseFrequency("every 6 hours as needed")).toMatchObject({ times: [], asNeeded: true })
+  })
+})
@@ -0,0 +1,272 @@
+import type { PrescriptionDrug, PrescriptionResult } from "@/lib/prescription"
+
+// Turns an analyzed prescription into a dosing timetable and exports it as
+// an iCalendar file. Frequencies and durations are read from the free-text
+// fields the backend returns; an unrecognised frequency falls back to once a
+// day and is flagged as a guess, an unrecognised duration to DEFAULT_DAYS,
+// and users adjust the result before exporting. "As needed" medicines are
+// listed but get no reminders.
+
+export type Recurrence = "daily" | "weekly"
+
+export interface ScheduleEntry {
+  id: string
+  drug: string
+  // What to take at each time, e.g. "1 tablet (500 mg)"
+  dose: string
+  // "HH:mm", sorted
+  times: string[]
+  recurrence: Recurrence
+  // Number of days (daily) or weeks (weekly) the course lasts
+  occurrences: number
+  // The prescription's own wording, shown when `guessed` or `asNeeded`
+  frequency: string
+  // Taken only when needed (PRN); `times` is empty and nothing is scheduled
+  asNeeded: boolean
+  // The frequency was not recognised and `times` is the once-a-day default
+  guessed: boolean
+}
+
+export interface MedicationSchedule {
+  startDate: Date
+  entries: ScheduleEntry[]
+  // Minutes before each dose to remind; 0 reminds at the dose time
+  reminderMinutes: number
+}
+
+export const DEFAULT_DAYS = 7
+
+const TIMES_PER_DAY: Record<number, string[]> = {
+  1: ["08:00"],
+  2: ["08:00", "20:00"],
+  3: ["08:00", "14:00", "20:00"],
+  4: ["08:00", "12:00", "16:00", "20:00"],
+}
+
+const WORD_COUNTS: Record<string, number> = { once: 1, one: 1, twice: 2, two: 2, thrice: 3, three: 3, four: 4 }
+
+const ABBREVIATION_COUNTS: Record<string, number> = { od: 1, qd: 1, bid: 2, bd: 2, tid: 3, tds: 3, qid: 4, qds: 4 }
+
+const MEAL_TIMES: [RegExp, string][] = [
+  [/\b(?:before breakfast|empty stomach)\b/i, "07:30"],
+  [/\b(?:after breakfast|morning)\b/i, "08:30"],
+  [/\b(?:lunch|afternoon|noon)\b/i, "13:00"],
+  [/\b(?:dinner|evening)\b/i, "19:00"],
+  [/\b(?:bed ?time|night|hs)\b/i, "22:00"],
+]
+
+const WEEKLY = /\b(?:weekly|once a week|per week|every week)\b/
+
+// Intervals a daily or weekly RRULE cannot express, or that need more than
+// one dose day a week. These get the guessed once-a-day default instead.
+const UNSUPPORTED_INTERVAL =
+  /\b(?:fortnight(?:ly)?|monthly|(?:a|per|every) month|every other (?:day|week)|alternate (?:days?|weeks?)|every \d+ (?:days|weeks|months)|(?:twice|thrice|(?:\d+|two|three|four)\s*(?:x|times))\s+(?:a|per|each|every)\s+week)\b/
+
+const AS_NEEDED = /\b(?:prn|sos|as needed|as required|when needed|if needed|when required)\b/
+
+// Slot notation common in Indian prescriptions: "1-0-1" is a dose in the
+// morning and at night, four slots add an evening dose
+const SLOT_TIMES: Record<number, string[]> = {
+  3: ["08:00", "14:00", "20:00"],
+  4: ["08:00", "13:00", "18:00", "22:00"],
+}
+
+function timesForInterval(hours: number): string[] {
+  const times: string[] = []
+  for (let h = 6; h < 24 + 6 && times.length < 24 / hours; h += hours) {
+    times.push(`${String(h % 24).padStart(2, "0")}:00`)
+  }
+  return times.sort()
+}
+
+// `count` doses spread over waking hours, 06:00 to 22:00
+function timesForCount(count: number): string[] {
+  if (TIMES_PER_DAY[count]) return TIMES_PER_DAY[count]
+  const step = (16 * 60) / (count - 1)
+  return Array.from({ length: count }, (_, i) => {
+    const minutes = Math.round((6 * 60 + i * step) / 15) * 15
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+  })
+}
+
+// How many doses a day the text asks for, if it says so explicitly
+function doseCount(text: string): number | null {
+  const abbreviation = text.match(/\b(od|qd|bid|bd|tid|tds|qid|qds)\b/)
+  if (abbreviation) return ABBREVIATION_COUNTS[abbreviation[1]]
+  // The number next to "times"/"x", so "one tablet three times a day" is three
+  const numeric = text.match(/\b(\d+)\s*(?:x\b|times\b)/)
+  if (numeric) return Number(numeric[1])
+  const word = text.match(/\b(?:(once|twice|thrice)|(one|two|three|four)\s+times)\b/)
+  if (word) return WORD_COUNTS[word[1] ?? word[2]]
+  return null
+}
+
+export interface ParsedFrequency {
+  times: string[]
+  recurrence: Recurrence
+  asNeeded: boolean
+  guessed: boolean
+}
+
+// Dose times for a frequency such as "3 times a day", "BID", "every 6 hours",
+// "q8h", "1-0-1" or "once daily before breakfast"
+export function parseFrequency(frequency: string): ParsedFrequency {
+  const text = frequency.toLowerCase()
+  const recurrence: Recurrence = WEEKLY.test(text) ? "weekly" : "daily"
+  const result = (times: string[], guessed = false): ParsedFrequency => ({
+    times: [...times].sort(),
+    recurrence,
+    asNeeded: false,
+    guessed,
+  })
+
+  // Checked first: "every 6 hours as needed" must not become a fixed 00:00 dose
+  if (AS_NEEDED.test(text)) return { times: [], recurrence: "daily", asNeeded: true, guessed: false }
+  if (UNSUPPORTED_INTERVAL.test(text)) return { ...result(TIMES_PER_DAY[1], true), recurrence: "daily" }
+
+  const interval = text.match(/\bevery\s+(\d+)\s*(?:hours?|hrs?|h)\b/) ?? text.match(/\bq\s*(\d+)\s*h(?:rs?|ours?)?\b/)
+  if (interval) {
+    const hours = Number(interval[1])
+    if (hours >= 1 && hours <= 24) return { ...result(timesForInterval(hours)), recurrence: "daily" }
+  }
+
+  const slots = text.match(/\b\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?){2,3}\b/)
+  if (slots) {
+    const amounts = slots[0].split("-").map(Number)
+    const times = SLOT_TIMES[amounts.length].filter((_, i) => amounts[i] > 0)
+    if (times.length > 0) return result(times)
+  }
+
+  const mealTimes = Array.from(new Set(MEAL_TIMES.filter(([pattern]) => pattern.test(text)).map(([, time]) => time)))
+  const count = doseCount(text)
+
+  if (count !== null && count >= 1) {
+    if (mealTimes.length === count) return result(mealTimes)
+    if (count === 1 && mealTimes.length > 0) return result([mealTimes[0]])
+    return result(timesForCount(Math.min(count, 24)))
+  }
+  // No number given: "morning and night" is one dose at each
+  if (mealTimes.length > 0) return result(mealTimes)
+  if (/\b(?:daily|a day|per day|every day|each day|weekly|a week|per week)\b/.test(text)) return result(TIMES_PER_DAY[1])
+
+  return result(TIMES_PER_DAY[1], true)
+}
+
+// Course length in days (or weeks for weekly doses), e.g. "7 days", "2 weeks"
+export function parseDuration(duration: string, recurrence: Recurrence): number {
+  const match = duration.toLowerCase().match(/(\d+)\s*(day|week|month)/)
+  if (!match) return recurrence === "weekly" ? 4 : DEFAULT_DAYS
+  const days = Number(match[1]) * { day: 1, week: 7, month: 30 }[match[2] as "day" | "week" | "month"]
+  return recurrence === "weekly" ? Math.max(1, Math.round(days / 7)) : days
+}
+
+function doseLabel(drug: PrescriptionDrug): string {
+  if (drug.dosage && drug.strength) return `${drug.dosage} (${drug.strength})`
+  return drug.dosage || drug.strength || "1 dose"
+}
+
+export function buildSchedule(result: PrescriptionResult, startDate: Date = new Date()): MedicationSchedule {
+  const entries = result.drugs.map((drug, index) => {
+    const { times, recurrence, asNeeded, guessed } = parseFrequency(drug.frequency)
+    return {
+      id: `med_${index}`,
+      drug: drug.name,
+      dose: doseLabel(drug),
+      times,
+      recurrence,
+      occurrences: parseDuration(drug.duration, recurrence),
+      frequency: drug.frequency,
+      asNeeded,
+      guessed,
+    }
+  })
+  const start = new Date(startDate)
+  start.setHours(0, 0, 0, 0)
+  return { startDate: start, entries, reminderMinutes: 0 }
+}
+
+// Calendar days on which at least one dose of `entry` falls
+export function doseDays(schedule: MedicationSchedule, entry: ScheduleEntry): Date[] {
+  if (entry.asNeeded) return []
+  const step = entry.recurrence === "weekly" ? 7 : 1
+  return Array.from({ length: entry.occurrences }, (_, i) => {
+    const day = new Date(schedule.startDate)
+    day.setDate(day.getDate() + i * step)
+    return day
+  })
+}
+
+// Doses on one calendar day, in time order
+export function dosesOn(schedule: MedicationSchedule, day: Date): { time: string; entry: ScheduleEntry }[] {
+  return schedule.entries
+    .filter((entry) => doseDays(schedule, entry).some((d) => d.toDateString() === day.toDateString()))
+    .flatMap((entry) => entry.times.map((time) => ({ time, entry })))
+    .sort((a, b) => a.time.localeCompare(b.time))
+}
+
+// --- iCalendar export (RFC 5545) ---
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+// Floating local time, so reminders follow the device's time zone
+function icsDateTime(day: Date, time: string): string {
+  const [hours, minutes] = time.split(":")
+  return `${day.getFullYear()}${pad(day.getMonth() + 1)}${pad(day.getDate())}T${hours}${minutes}00`
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n")
+}
+
+// Lines longer than 75 octets are folded with a leading space
+function fold(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let current = ""
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ""
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  chunks.push(current)
+  return chunks.join("\r\n ")
+}
+
+export function scheduleToIcs(schedule: MedicationSchedule): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "")
+  const events = schedule.entries
+    .filter((entry) => !entry.asNeeded)
+    .flatMap((entry) =>
+      entry.times.map((time) => {
+        const summary = `Take ${entry.drug} — ${entry.dose}`
+        return [
+          "BEGIN:VEVENT",
+          `UID:${entry.id}-${time.replace(":", "")}-${schedule.startDate.getTime()}@medi-assist`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${icsDateTime(schedule.startDate, time)}`,
+          "DURATION:PT5M",
+          `RRULE:FREQ=${entry.recurrence === "weekly" ? "WEEKLY" : "DAILY"};COUNT=${entry.occurrences}`,
+          `SUMMARY:${icsText(summary)}`,
+          "BEGIN:VALARM",
+          "ACTION:DISPLAY",
+          `DESCRIPTION:${icsText(summary)}`,
+          `TRIGGER:-PT${schedule.reminderMinutes}M`,
+          "END:VALARM",
+          "END:VEVENT",
+        ]
+      })
+    )
+
+  return (
+    ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Medi Assist//Medication schedule//EN", "CALSCALE:GREGORIAN", ...events.flat(), "END:VCALENDAR"]
+      .map(fold)
+      .join("\r\n") + "\r\n"
+  )
+}
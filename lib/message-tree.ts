@@ -0,0 +1,97 @@
+import type { Message } from "@/lib/chat-types"
+
+// A conversation as a tree of messages. Editing a user turn or regenerating
+// an answer adds a sibling instead of overwriting, so earlier continuations
+// stay available as alternate branches. `selection` records which child is
+// shown under each parent; the chat renders the resulting active path.
+
+export const ROOT = "root"
+
+export interface MessageTree {
+  nodes: Message[]
+  // parent id (or ROOT) -> id of the child on the active path
+  selection: Record<string, string>
+}
+
+export const EMPTY_TREE: MessageTree = { nodes: [], selection: {} }
+
+const parentKey = (message: Message) => message.parentId ?? ROOT
+
+// Conversations saved before branching existed are plain lists
+export function fromLinear(messages: Message[]): MessageTree {
+  const nodes = messages.map((msg, i) =>
+    msg.parentId !== undefined ? msg : { ...msg, parentId: i === 0 ? null : messages[i - 1].id }
+  )
+  return { nodes, selection: {} }
+}
+
+// Children in creation order
+export function childrenOf(tree: MessageTree, parentId: string | null): Message[] {
+  const key = parentId ?? ROOT
+  return tree.nodes.filter((msg) => parentKey(msg) === key)
+}
+
+export function siblingsOf(tree: MessageTree, message: Message): Message[] {
+  return childrenOf(tree, message.parentId ?? null)
+}
+
+// Follows the selected (or else newest) child from the root down
+export function activePath(tree: MessageTree): Message[] {
+  const path: Message[] = []
+  let parentId: string | null = null
+
+  while (true) {
+    const children = childrenOf(tree, parentId)
+    if (children.length === 0) return path
+    const selectedId: string | undefined = tree.selection[parentId ?? ROOT]
+    const next: Message = children.find((msg) => msg.id === selectedId) ?? children[children.length - 1]
+    path.push(next)
+    parentId = next.id
+  }
+}
+
+// The conversation up to and including `id`, from the root down
+export function pathTo(tree: MessageTree, id: string | null): Message[] {
+  const path: Message[] = []
+  let current = tree.nodes.find((msg) => msg.id === id)
+  while (current) {
+    path.unshift(current)
+    const parentId = current.parentId
+    current = parentId ? tree.nodes.find((msg) => msg.id === parentId) : undefined
+  }
+  return path
+}
+
+// The backend session a follow-up to `path` continues: the latest answer's.
+// Null for a new conversation, or one whose answers predate `sessionId`.
+export function sessionOf(path: Message[]): string | null {
+  const answer = [...path].reverse().find((msg) => msg.sessionId)
+  return answer?.sessionId ?? null
+}
+
+// Adds a message and puts it on the active path
+export function appendMessage(tree: MessageTree, message: Message): MessageTree {
+  return {
+    nodes: [...tree.nodes, message],
+    selection: { ...tree.selection, [parentKey(message)]: message.id },
+  }
+}
+
+export function updateMessage(tree: MessageTree, id: string, patch: Partial<Message>): MessageTree {
+  return { ...tree, nodes: tree.nodes.map((msg) => (msg.id === id ? { ...msg, ...patch } : msg)) }
+}
+
+// Removes a message together with everything that continues from it
+export function removeMessage(tree: MessageTree, id: string): MessageTree {
+  const removed = new Set([id])
+  for (const msg of tree.nodes) {
+    // Nodes are stored parent-first, so one pass catches all descendants
+    if (msg.parentId && removed.has(msg.parentId)) removed.add(msg.id)
+  }
+  const selection = Object.fromEntries(Object.entries(tree.selection).filter(([, childId]) => !removed.has(childId)))
+  return { nodes: tree.nodes.filter((msg) => !removed.has(msg.id)), selection }
+}
+
+export function selectBranch(tree: MessageTree, message: Message): MessageTree {
+  return { ...tree, selection: { ...tree.selection, [parentKey(message)]: message.id } }
+}
@@ -0,0 +1,331 @@
+// In-process stand-in for the MediAssist backend `/run`, `/interactions` and
+// `/transcribe` contracts, for developing and testing the UI without the hosted service.
+// The routes under app/api/mock serve the same handlers over HTTP, e.g. for
+// curl or another UI instance, but only while mock mode is enabled.
+//
+// /run request:  { query, session_id, img_base64, images: [{ mime_type, img_base64 }],
+//                 medications?: [{ name, dose, frequency, notes }],
+//                 patient_profile?: { age, sex, weight_kg, pregnancy, allergies, conditions },
+//                 red_flags?: string[], history?: [{ role, content }] }
+//                with X-Interaction-ID when resuming; unknown IDs get a 404
+// /run response: { response, images_considered, prescription?, sources? } as JSON, or a token
+//                stream for the stream scenarios
+//
+// A scenario is picked by a `#mock:<name>` tag in the query, falling back to
+// MEDIASSIST_MOCK_SCENARIO and then to `auto` (prescription analysis when an
+// image is attached, a short echo otherwise).
+
+export const MOCK_SCENARIOS = [
+  "auto",
+  "echo",
+  "slow",
+  "error",
+  "unavailable",
+  "malformed",
+  "prescription",
+  "long",
+  "sse",
+  "ndjson",
+  "cited",
+] as const
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number]
+
+const SLOW_DELAY = 8000
+const STREAM_TOKEN_DELAY = 30
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+function isScenario(value: string | undefined): value is MockScenario {
+  return !!value && (MOCK_SCENARIOS as readonly string[]).includes(value)
+}
+
+function pickScenario(query: string): MockScenario {
+  const tag = query.match(/#mock:([a-z]+)/)?.[1]
+  if (isScenario(tag)) return tag
+  const fallback = process.env.MEDIASSIST_MOCK_SCENARIO
+  return isScenario(fallback) ? fallback : "auto"
+}
+
+const PRESCRIPTION_ANSWER = `### Prescription analysis
+
+| Drug | Strength | Dosage | Frequency | Duration |
+| --- | --- | --- | --- | --- |
+| Amoxicillin | 500 mg | 1 capsule | 3 times a day | 7 days |
+| Paracetamol | 650 mg | 1 tablet | Every 6 hours as needed | 5 days |
+| Pantoprazole | 40 mg | 1 tablet | Once daily before breakfast | 14 days |
+
+**Warnings**
+
+- Complete the full course of Amoxicillin even if symptoms improve.
+- Do not exceed 4 g of Paracetamol in 24 hours.
+
+_This is a mock response from the local MediAssist stand-in._`
+
+// Structured twin of PRESCRIPTION_ANSWER, as a backend with typed output sends it
+const PRESCRIPTION_RESULT = {
+  drugs: [
+    { name: "Amoxicillin", strength: "500 mg", dosage: "1 capsule", frequency: "3 times a day", duration: "7 days" },
+    { name: "Paracetamol", strength: "650 mg", dosage: "1 tablet", frequency: "Every 6 hours as needed", duration: "5 days" },
+    { name: "Pantoprazole", strength: "40 mg", dosage: "1 tablet", frequency: "Once daily before breakfast", duration: "14 days" },
+  ],
+  warnings: [
+    "Complete the full course of Amoxicillin even if symptoms improve.",
+    "Do not exceed 4 g of Paracetamol in 24 hours.",
+  ],
+}
+
+const CITED_ANSWER = [
+  "Adults can usually take **paracetamol** 500 mg–1 g every 4–6 hours, up to 4 g in 24 hours [^1].",
+  "Lower limits apply with liver disease or regular alcohol use [^2], and combination cold remedies often contain paracetamol too [1].",
+].join("\n\n")
+
+const CITED_SOURCES = [
+  {
+    title: "Paracetamol for adults",
+    url: "https://www.nhs.uk/medicines/paracetamol-for-adults/",
+    snippet: "The usual dose for adults is one or two 500mg tablets up to 4 times in 24 hours.",
+  },
+  {
+    title: "Acetaminophen — LiverTox",
+    url: "https://www.ncbi.nlm.nih.gov/books/NBK548162/",
+    snippet: "Acetaminophen hepatotoxicity is more likely with chronic alcohol use and at doses above 4 g/day.",
+  },
+]
+
+function longAnswer(query: string): string {
+  const sections = ["Overview", "Common causes", "Self-care", "Medication options", "When to see a doctor"]
+  return [
+    `# About: ${query}`,
+    ...sections.flatMap((title, i) => [
+      `## ${i + 1}. ${title}`,
+      Array.from(
+        { length: 4 },
+        (_, j) =>
+          `- Point ${j + 1} on ${title.toLowerCase()}: this paragraph is deliberately verbose so the UI can be checked with long, scrolling markdown answers, including **bold**, _italic_ and \`inline code\`.`
+      ).join("\n"),
+    ]),
+    "```\nExample dosing table\n  morning  500 mg\n  evening  500 mg\n```",
+  ].join("\n\n")
+}
+
+// Echoes the patient profile back so the UI shows it reached the backend
+function describePatient(profile: unknown): string | null {
+  if (!profile || typeof profile !== "object") return null
+  const { age, sex, weight_kg, pregnancy, allergies } = profile as Record<string, unknown>
+  const parts = [
+    typeof age === "number" && `${age} years old`,
+    typeof sex === "string" && sex,
+    typeof weight_kg === "number" && `${weight_kg} kg`,
+    typeof pregnancy === "string" && pregnancy.replace("_", " "),
+    Array.isArray(allergies) && allergies.length > 0 && `allergic to ${allergies.join(", ")}`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(", ") : null
+}
+
+function answerFor(
+  scenario: MockScenario,
+  query: string,
+  hasImage: boolean,
+  medications: string[] = [],
+  patient: string | null = null
+): string {
+  if (scenario === "prescription" || (scenario === "auto" && hasImage)) return PRESCRIPTION_ANSWER
+  if (scenario === "long") return longAnswer(query)
+  if (scenario === "cited") return CITED_ANSWER
+  const context = [
+    medications.length > 0 && `Considering your medications: ${medications.join(", ")}.`,
+    patient && `Patient: ${patient}.`,
+  ]
+    .filter(Boolean)
+    .map((line) => `\n\n${line}`)
+    .join("")
+  return `**Mock answer** to: ${query}${context}\n\nThis response comes from the local MediAssist stand-in.`
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+// `meta` goes out as a last frame without a token, like `images_considered`
+// from the hosted streaming endpoint
+function streamResponse(text: string, format: "sse" | "ndjson", meta: Record<string, unknown>): Response {
+  const encoder = new TextEncoder()
+  const encodeFrame = (frame: object) =>
+    encoder.encode(format === "sse" ? `data: ${JSON.stringify(frame)}\n\n` : JSON.stringify(frame) + "\n")
+  const stream = new ReadableStream({
+    async start(controller) {
+      for (const token of tokenize(text)) {
+        controller.enqueue(encodeFrame({ token }))
+        await sleep(STREAM_TOKEN_DELAY)
+      }
+      controller.enqueue(encodeFrame(meta))
+      if (format === "sse") controller.enqueue(encoder.encode("data: [DONE]\n\n"))
+      controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: { "Content-Type": format === "sse" ? "text/event-stream" : "application/x-ndjson" },
+  })
+}
+
+// Interaction IDs answered since this process started. Like the hosted
+// backend after a restart, the mock forgets sessions it has not seen.
+const knownSessions = new Set<string>()
+
+export async function handleMockRun(req: Request): Promise<Response> {
+  const resumed = req.headers.get("X-Interaction-ID")
+  if (resumed && !knownSessions.has(resumed)) {
+    return Response.json({ detail: "Unknown session" }, { status: 404 })
+  }
+
+  let body: {
+    query?: unknown
+    session_id?: unknown
+    img_base64?: unknown
+    images?: unknown
+    medications?: unknown
+    patient_profile?: unknown
+    red_flags?: unknown
+    history?: unknown
+  }
+  try {
+    body = await req.json()
+  } catch {
+    return Response.json({ detail: "Invalid JSON body" }, { status: 422 })
+  }
+
+  if (typeof body.query !== "string" || typeof body.session_id !== "string") {
+    return Response.json({ detail: "query and session_id are required" }, { status: 422 })
+  }
+  knownSessions.add(body.session_id)
+
+  const scenario = pickScenario(body.query)
+  const query = body.query.replace(/#mock:[a-z]+/g, "").trim()
+  const imageCount = Array.isArray(body.images)
+    ? body.images.length
+    : typeof body.img_base64 === "string" && body.img_base64.length > 0
+      ? 1
+      : 0
+  const hasImage = imageCount > 0
+  const medications = Array.isArray(body.medications)
+    ? body.medications.map((medication) => medication?.name).filter((name): name is string => typeof name === "string")
+    : []
+
+  const replayNote = Array.isArray(body.history) && body.history.length > 0
+    ? `_Continuing from ${body.history.length} earlier messages._\n\n`
+    : ""
+  const urgentNote =
+    Array.isArray(body.red_flags) && body.red_flags.length > 0
+      ? `> **Urgent (${body.red_flags.join(", ")}):** seek emergency care now.\n\n`
+      : ""
+  const preface = urgentNote + replayNote
+
+  switch (scenario) {
+    case "error":
+      return Response.json({ detail: "Mock internal error" }, { status: 500 })
+    case "unavailable":
+      return Response.json({ detail: "Mock backend is asleep" }, { status: 503 })
+    case "malformed":
+      return new Response('{"response": "truncated', { headers: { "Content-Type": "application/json" } })
+    case "slow":
+      await sleep(SLOW_DELAY)
+      break
+    case "sse":
+    case "ndjson":
+      return streamResponse(preface + answerFor(scenario, query, hasImage), scenario, {
+        images_considered: Array.from({ length: imageCount }, (_, i) => i),
+      })
+  }
+
+  const isPrescription = scenario === "prescription" || (scenario === "auto" && hasImage)
+  return Response.json({
+    response: preface + answerFor(scenario, query, hasImage, medications, describePatient(body.patient_profile)),
+    ...(isPrescription && { prescription: PRESCRIPTION_RESULT }),
+    ...(scenario === "cited" && { sources: CITED_SOURCES }),
+    images_considered: Array.from({ length: imageCount }, (_, i) => i),
+  })
+}
+
+// Well-known pairs for the interaction checker; anything else is reported as
+// having no interaction
+const MOCK_INTERACTIONS: [string, string, string, string][] = [
+  ["warfarin", "aspirin", "major", "Both thin the blood; taken together the risk of serious bleeding rises sharply."],
+  ["warfarin", "ibuprofen", "major", "NSAIDs irritate the stomach lining and add to warfarin's bleeding risk."],
+  ["warfarin", "fluconazole", "major", "Fluconazole slows warfarin breakdown, raising INR and bleeding risk."],
+  ["sildenafil", "nitroglycerin", "contraindicated", "The combination can cause a sudden, dangerous drop in blood pressure."],
+  ["simvastatin", "clarithromycin", "contraindicated", "Clarithromycin raises simvastatin levels, risking muscle breakdown."],
+  ["lisinopril", "spironolactone", "moderate", "Both raise potassium; levels should be monitored."],
+  ["sertraline", "tramadol", "moderate", "Together they increase the risk of serotonin syndrome and seizures."],
+  ["metformin", "prednisone", "minor", "Steroids can raise blood sugar and blunt metformin's effect."],
+  ["ibuprofen", "aspirin", "minor", "Ibuprofen may reduce aspirin's protective effect on the heart."],
+]
+
+// Request:  { drugs: string[] }
+// Response: { interactions: [{ drug_a, drug_b, severity, explanation }] }
+export async function handleMockInteractions(req: Request): Promise<Response> {
+  let body: { drugs?: unknown }
+  try {
+    body = await req.json()
+  } catch {
+    return Response.json({ detail: "Invalid JSON body" }, { status: 422 })
+  }
+  if (!Array.isArray(body.drugs) || !body.drugs.every((drug) => typeof drug === "string")) {
+    return Response.json({ detail: "drugs must be a list of names" }, { status: 422 })
+  }
+
+  const drugs = body.drugs as string[]
+  const interactions = drugs.flatMap((a, i) =>
+    drugs.slice(i + 1).map((b) => {
+      const known = MOCK_INTERACTIONS.find(
+        ([x, y]) => [x, y].sort().join() === [a.toLowerCase(), b.toLowerCase()].sort().join()
+      )
+      return {
+        drug_a: a,
+        drug_b: b,
+        severity: known?.[2] ?? "none",
+        explanation: known?.[3] ?? "No interaction found in the mock dataset.",
+      }
+    })
+  )
+  return Response.json({ interactions })
+}
+
+// Request:  { audio_base64: string, mime_type: string, language: string }
+// Response: { text: string }
+export async function handleMockTranscribe(req: Request): Promise<Response> {
+  let body: { audio_base64?: unknown; language?: unknown }
+  try {
+    body = await req.json()
+  } catch {
+    return Response.json({ detail: "Invalid JSON body" }, { status: 422 })
+  }
+  if (typeof body.audio_base64 !== "string" || body.audio_base64.length === 0) {
+    return Response.json({ detail: "audio_base64 is required" }, { status: 422 })
+  }
+  // No speech recognition here; a fixed sentence shows the round trip works
+  const language = typeof body.language === "string" ? body.language : "en-US"
+  return Response.json({ text: `Can I take ibuprofen with my blood pressure tablets? (mock transcript, ${language})` })
+}
+
+const MOCK_ROUTES: Record<string, (req: Request) => Promise<Response>> = {
+  "/run": handleMockRun,
+  "/interactions": handleMockInteractions,
+  "/transcribe": handleMockTranscribe,
+}
+
+// Drop-in replacement for `fetch` used by the upstream client in mock mode
+export function mockFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input.toString())
+  const handler = Object.entries(MOCK_ROUTES).find(([path]) => url.pathname.endsWith(path))?.[1]
+  if (!handler) {
+    return Promise.resolve(Response.json({ detail: "Not Found" }, { status: 404 }))
+  }
+  const signal = init?.signal
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    signal?.addEventListener("abort", () => reject(signal.reason), { once: true })
+    handler(new Request(url, init)).then(resolve, reject)
+  })
+}
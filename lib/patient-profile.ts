@@ -0,0 +1,125 @@
+import { z } from "zod"
+
+// Patient profiles ("Who is this for?"). Caregivers can keep one per family
+// member; profiles live in localStorage on this device and the active one is
+// attached to each chat request so answers account for age, weight,
+// allergies and pregnancy.
+
+export const SEXES = ["female", "male", "other"] as const
+export const PREGNANCY_STATUSES = ["pregnant", "not_pregnant", "breastfeeding"] as const
+
+export const MAX_PROFILES = 20
+const MAX_LIST_ITEMS = 30
+
+const listItems = z
+  .array(z.string().trim().min(1).max(100))
+  .max(MAX_LIST_ITEMS, `At most ${MAX_LIST_ITEMS} entries`)
+
+// What is sent to the backend; the display name stays on the device
+export const patientContextSchema = z.object({
+  age: z.number().int().min(0).max(130).optional(),
+  sex: z.enum(SEXES).optional(),
+  weightKg: z.number().positive().max(500).optional(),
+  pregnancy: z.enum(PREGNANCY_STATUSES).optional(),
+  allergies: listItems.default([]),
+  conditions: listItems.default([]),
+})
+
+export type PatientContext = z.infer<typeof patientContextSchema>
+
+export interface PatientProfile extends PatientContext {
+  id: string
+  name: string
+}
+
+// The profile form works on strings; empty fields mean "not provided"
+export const profileFormSchema = z.object({
+  name: z.string().trim().min(1, "Enter a name for this profile").max(50),
+  age: z.string().trim().regex(/^(\d{1,3})?$/, "Enter age in whole years"),
+  sex: z.enum([...SEXES, ""]),
+  weightKg: z.string().trim().regex(/^(\d{1,3}(\.\d{1,2})?)?$/, "Enter weight in kg"),
+  pregnancy: z.enum([...PREGNANCY_STATUSES, ""]),
+  allergies: z.string().max(1000),
+  conditions: z.string().max(1000),
+})
+
+export type ProfileFormValues = z.infer<typeof profileFormSchema>
+
+const splitList = (value: string) =>
+  value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .slice(0, MAX_LIST_ITEMS)
+
+export function profileFromForm(values: ProfileFormValues, id: string): PatientProfile {
+  return {
+    id,
+    name: values.name.trim(),
+    age: values.age ? Math.min(Number(values.age), 130) : undefined,
+    sex: values.sex || undefined,
+    weightKg: values.weightKg ? Math.min(Number(values.weightKg), 500) || undefined : undefined,
+    pregnancy: values.pregnancy || undefined,
+    allergies: splitList(values.allergies),
+    conditions: splitList(values.conditions),
+  }
+}
+
+export function profileToForm(profile?: PatientProfile): ProfileFormValues {
+  return {
+    name: profile?.name ?? "",
+    age: profile?.age?.toString() ?? "",
+    sex: profile?.sex ?? "",
+    weightKg: profile?.weightKg?.toString() ?? "",
+    pregnancy: profile?.pregnancy ?? "",
+    allergies: profile?.allergies.join(", ") ?? "",
+    conditions: profile?.conditions.join(", ") ?? "",
+  }
+}
+
+export function toPatientContext({ id: _id, name: _name, ...context }: PatientProfile): PatientContext {
+  return context
+}
+
+// One-line description for the header switcher, e.g. "34 y · F · 60 kg"
+export function describeProfile(profile: PatientProfile): string {
+  return [
+    profile.age !== undefined && `${profile.age} y`,
+    profile.sex && { female: "F", male: "M", other: "Other" }[profile.sex],
+    profile.weightKg !== undefined && `${profile.weightKg} kg`,
+    profile.pregnancy === "pregnant" && "pregnant",
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+// --- storage ---
+
+export interface PatientProfilesState {
+  profiles: PatientProfile[]
+  activeId: string | null
+}
+
+const STORAGE_KEY = "medi-assist:patient-profiles"
+
+const storedSchema = z.object({
+  profiles: z.array(patientContextSchema.extend({ id: z.string(), name: z.string() })).max(MAX_PROFILES),
+  activeId: z.string().nullable(),
+})
+
+export const EMPTY_PROFILES: PatientProfilesState = { profiles: [], activeId: null }
+
+export function loadProfiles(): PatientProfilesState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return EMPTY_PROFILES
+    const parsed = storedSchema.safeParse(JSON.parse(raw))
+    return parsed.success ? parsed.data : EMPTY_PROFILES
+  } catch {
+    return EMPTY_PROFILES
+  }
+}
+
+export function saveProfiles(state: PatientProfilesState) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+
+import { prescriptionToCsv, type PrescriptionDrug } from "@/lib/prescription"
+
+const drug: PrescriptionDrug = {
+  name: "Amoxicillin",
+  strength: "500 mg",
+  dosage: "1 capsule",
+  frequency: "3 times a day",
+  duration: "7 days",
+}
+
+// The CSV line for a single drug
+const csvRow = (overrides: Partial<PrescriptionDrug>) =>
+  prescriptionToCsv({ drugs: [{ ...drug, ...overrides }], warnings: [] }).split("\n")[1]
+
+describe("prescriptionToCsv", () => {
+  it("writes a header and one row per drug", () => {
+    expect(prescriptionToCsv({ drugs: [drug], warnings: [] })).toBe(
+      "Drug,Strength,Dosage,Frequency,Duration\nAmoxicillin,500 mg,1 capsule,3 times a day,7 days\n"
+    )
+  })
+
+  it.each([
+    ["=1+1", "'=1+1"],
+    ["+1", "'+1"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ['=HYPERLINK("http://example.com")', `"'=HYPERLINK(""http://example.com"")"`],
+  ])("keeps %s from running as a formula", (name, cell) => {
+    expect(csvRow({ name })).toBe(`${cell},500 mg,1 capsule,3 times a day,7 days`)
+  })
+
+  it("quotes cells with commas and quotes", () => {
+    expect(csvRow({ name: 'Drug "A", B' })).toBe(`"Drug ""A"", B",500 mg,1 capsule,3 times a day,7 days`)
+  })
+})
@@ -0,0 +1,136 @@
+import { z } from "zod"
+
+// Typed result of a prescription analysis. The backend may send it directly
+// as `prescription` next to its prose answer; otherwise the chat route tries
+// to recover it from the markdown table in the answer text.
+
+export const DEFAULT_PRESCRIPTION_PROMPT = "Please analyze this prescription of drugs"
+
+export const prescriptionDrugSchema = z.object({
+  name: z.string().min(1),
+  strength: z.string().default(""),
+  dosage: z.string().default(""),
+  frequency: z.string().default(""),
+  duration: z.string().default(""),
+})
+
+export const prescriptionResultSchema = z.object({
+  drugs: z.array(prescriptionDrugSchema).min(1),
+  warnings: z.array(z.string()).default([]),
+})
+
+export type PrescriptionDrug = z.infer<typeof prescriptionDrugSchema>
+export type PrescriptionResult = z.infer<typeof prescriptionResultSchema>
+
+export const PRESCRIPTION_COLUMNS = [
+  { key: "name", label: "Drug" },
+  { key: "strength", label: "Strength" },
+  { key: "dosage", label: "Dosage" },
+  { key: "frequency", label: "Frequency" },
+  { key: "duration", label: "Duration" },
+] as const satisfies readonly { key: keyof PrescriptionDrug; label: string }[]
+
+// Header words that identify each column in a markdown table
+const HEADER_ALIASES: Record<keyof PrescriptionDrug, RegExp> = {
+  name: /drug|medicine|medication|name/i,
+  strength: /strength/i,
+  dosage: /dosage|dose|quantity/i,
+  frequency: /frequency|how often|timing|schedule/i,
+  duration: /duration|days|period|course/i,
+}
+
+const splitRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim().replace(/\*\*|__/g, ""))
+
+const isSeparator = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)
+
+function parseTable(lines: string[]): PrescriptionDrug[] {
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].includes("|") || !isSeparator(lines[i + 1])) continue
+
+    const headers = splitRow(lines[i])
+    const columns = new Map<keyof PrescriptionDrug, number>()
+    // Match the most specific columns first so "Dosage" is not taken as strength
+    for (const key of ["name", "frequency", "duration", "dosage", "strength"] as const) {
+      const index = headers.findIndex((header, h) => HEADER_ALIASES[key].test(header) && ![...columns.values()].includes(h))
+      if (index !== -1) columns.set(key, index)
+    }
+    if (!columns.has("name")) continue
+
+    const drugs: PrescriptionDrug[] = []
+    for (let r = i + 2; r < lines.length && lines[r].includes("|"); r++) {
+      const cells = splitRow(lines[r])
+      const cell = (key: keyof PrescriptionDrug) => {
+        const index = columns.get(key)
+        return index === undefined ? "" : (cells[index] ?? "")
+      }
+      if (!cell("name")) continue
+      drugs.push({
+        name: cell("name"),
+        strength: cell("strength"),
+        dosage: cell("dosage"),
+        frequency: cell("frequency"),
+        duration: cell("duration"),
+      })
+    }
+    if (drugs.length > 0) return drugs
+  }
+  return []
+}
+
+// List items following a "Warnings" (or "Precautions") heading or bold label
+function parseWarnings(lines: string[]): string[] {
+  const start = lines.findIndex((line) => /^\s*(#{1,6}\s*|\*\*)?\s*(warnings?|precautions?|cautions?)\b/i.test(line))
+  if (start === -1) return []
+
+  const warnings: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    const item = line.match(/^\s*(?:[-*+]|\d+\.)\s+(.*)$/)
+    if (item) warnings.push(item[1].trim())
+    else if (line.trim() && warnings.length > 0) break
+  }
+  return warnings
+}
+
+export function parsePrescriptionMarkdown(markdown: string): PrescriptionResult | null {
+  const lines = markdown.split(/\r?\n/)
+  const drugs = parseTable(lines)
+  if (drugs.length === 0) return null
+  return { drugs, warnings: parseWarnings(lines) }
+}
+
+// Prefers the backend's structured result and falls back to the answer text
+export function extractPrescription(structured: unknown, answer: string): PrescriptionResult | null {
+  if (structured !== undefined && structured !== null) {
+    const parsed = prescriptionResultSchema.safeParse(structured)
+    if (parsed.success) return parsed.data
+  }
+  return parsePrescriptionMarkdown(answer)
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function prescriptionToCsv(result: PrescriptionResult): string {
+  const escape = (cell: string) => {
+    const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+  const rows = [
+    PRESCRIPTION_COLUMNS.map((column) => column.label),
+    ...result.drugs.map((drug) => PRESCRIPTION_COLUMNS.map((column) => drug[column.key])),
+  ]
+  return rows.map((row) => row.map(escape).join(",")).join("\n") + "\n"
+}
+
+export function prescriptionToText(result: PrescriptionResult): string {
+  const drugs = result.drugs.map((drug) =>
+    [drug.name, drug.strength, drug.dosage, drug.frequency, drug.duration].filter(Boolean).join(" — ")
+  )
+  const warnings = result.warnings.length > 0 ? ["", "Warnings:", ...result.warnings.map((w) => `- ${w}`)] : []
+  return [...drugs, ...warnings].join("\n")
+}
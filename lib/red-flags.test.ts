@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+
+import { detectRedFlags } from "@/lib/red-flags"
+
+describe("detectRedFlags", () => {
+  it.each([
+    ["I have crushing chest pain", ["cardiac"]],
+    ["pain spreading to my left arm", ["cardiac"]],
+    ["I think my dad is having a stroke", ["stroke"]],
+    ["I can’t breathe", ["breathing"]],
+    ["took the whole bottle of paracetamol", ["overdose"]],
+    ["I had a seizure this morning", ["neurological"]],
+    ["No fever, but chest pain since an hour", ["cardiac"]],
+  ])("flags %s", (text, categories) => {
+    expect(detectRedFlags(text)).toEqual(categories)
+  })
+
+  it.each([
+    "no chest pain",
+    "Patient denies chest pain or shortness of breath",
+    "headache without slurred speech",
+    "I don't have chest pain",
+    "my dad had a stroke in 2010",
+    "history of seizures, well controlled",
+    "I overdosed 5 years ago",
+    "a stroke of luck",
+  ])("ignores %s", (text) => {
+    expect(detectRedFlags(text)).toEqual([])
+  })
+
+  it("judges each mention on its own", () => {
+    expect(detectRedFlags("My mother had a stroke last year, and now I have slurred speech")).toEqual(["stroke"])
+    expect(detectRedFlags("no chest pain, but I cannot breathe")).toEqual(["breathing"])
+  })
+})
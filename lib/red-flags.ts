@@ -0,0 +1,179 @@
+// Red-flag symptom detection. Runs in the page, to show the urgent-care
+// banner as soon as a message is sent, and in /api/chat, which tags the
+// backend request with the matched categories. Both use the same rules, so
+// the banner and the tag always agree. Mentions that are negated ("no chest
+// pain") or about the past ("my dad had a stroke in 2010") do not count.
+
+export type RedFlagCategory =
+  | "cardiac"
+  | "stroke"
+  | "breathing"
+  | "anaphylaxis"
+  | "overdose"
+  | "self_harm"
+  | "bleeding"
+  | "neurological"
+
+export interface RedFlagRule {
+  category: RedFlagCategory
+  // Matched case-insensitively as whole words or phrases
+  phrases?: string[]
+  // For wordings a phrase list cannot cover, e.g. "pain ... left arm"
+  patterns?: RegExp[]
+}
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    category: "cardiac",
+    phrases: ["chest pain", "chest pressure", "chest tightness", "heart attack", "crushing chest"],
+    patterns: [/pain\b.{0,40}\b(radiat|spread|going|moving)\w*\b.{0,20}\b(left )?(arm|jaw|shoulder)/i],
+  },
+  {
+    category: "stroke",
+    phrases: ["face drooping", "facial droop", "slurred speech", "can't speak", "cannot speak"],
+    patterns: [
+      // "having a stroke", but not "a stroke of luck"
+      /\ba stroke\b(?! of)/i,
+      /sudden\w*\b.{0,20}\b(numb|weak)\w*\b.{0,30}\b(one side|left side|right side|face|arm|leg)/i,
+    ],
+  },
+  {
+    category: "breathing",
+    phrases: [
+      "can't breathe",
+      "cannot breathe",
+      "can not breathe",
+      "struggling to breathe",
+      "difficulty breathing",
+      "choking",
+      "lips turning blue",
+      "blue lips",
+    ],
+  },
+  {
+    category: "anaphylaxis",
+    phrases: ["anaphylaxis", "anaphylactic", "swollen tongue", "tongue swelling"],
+    patterns: [/throat\b.{0,15}\b(swell|swollen|closing|tight)/i],
+  },
+  {
+    category: "overdose",
+    phrases: ["overdose", "overdosed", "od'd", "poisoned", "swallowed bleach", "drank bleach"],
+    patterns: [/(took|taken|swallowed|ate)\b.{0,20}\b(too many|whole (bottle|pack|strip)|all (my|the|of))\b/i],
+  },
+  {
+    category: "self_harm",
+    phrases: ["suicide", "suicidal", "kill myself", "end my life", "want to die", "self harm", "self-harm", "hurt myself"],
+  },
+  {
+    category: "bleeding",
+    phrases: [
+      "won't stop bleeding",
+      "wont stop bleeding",
+      "heavy bleeding",
+      "vomiting blood",
+      "coughing up blood",
+      "blood in vomit",
+    ],
+  },
+  {
+    category: "neurological",
+    phrases: ["seizure", "convulsing", "unconscious", "unresponsive", "passed out", "worst headache of my life"],
+  },
+]
+
+export const RED_FLAG_LABELS: Record<RedFlagCategory, string> = {
+  cardiac: "possible heart attack",
+  stroke: "possible stroke",
+  breathing: "trouble breathing",
+  anaphylaxis: "severe allergic reaction",
+  overdose: "overdose or poisoning",
+  self_harm: "thoughts of self-harm",
+  bleeding: "severe bleeding",
+  neurological: "seizure or loss of consciousness",
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Apostrophes in user text are often typographic ("can’t")
+const normalize = (text: string) => text.replace(/[‘’]/g, "'").replace(/\s+/g, " ")
+
+// Start and end of each place `rule` matches in `text`
+function mentions(text: string, rule: RedFlagRule): [number, number][] {
+  const found: [number, number][] = []
+  for (const phrase of rule.phrases ?? []) {
+    for (const match of Array.from(text.matchAll(new RegExp(`(^|[^\\w])${escapeRegExp(phrase)}(?=$|[^\\w])`, "gi")))) {
+      const start = (match.index ?? 0) + match[1].length
+      found.push([start, start + phrase.length])
+    }
+  }
+  for (const pattern of rule.patterns ?? []) {
+    const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`)
+    for (const match of Array.from(text.matchAll(global))) {
+      found.push([match.index ?? 0, (match.index ?? 0) + match[0].length])
+    }
+  }
+  return found
+}
+
+const CLAUSE_BREAK = /[.!?;,\n]|\bbut\b/gi
+// Checked in the few words right before a mention: "no chest pain", "denies chest pain"
+const NEGATION = /\b(?:no|not|never|without|deny|denies|denied|don't|doesn't|didn't|isn't|wasn't|haven't|hasn't)\b/i
+const NEGATION_WORDS = 3
+// Checked in the mention's whole clause
+const HISTORY =
+  /\b(?:history of|(?:in|since) (?:19|20)\d\d|\d+ (?:years?|months?|weeks?) ago|last (?:year|month)|used to)\b|\b(?:my|his|her|their) (?:dad|father|mum|mom|mother|parents?|brother|sister|grand\w+|uncle|aunt|husband|wife|partner|son|daughter|friend)\b.{0,20}\b(?:had|died)\b/i
+
+// False when the mention at `start`-`end` is negated or describes the past
+function isCurrent(text: string, start: number, end: number): boolean {
+  let clauseStart = 0
+  for (const match of Array.from(text.slice(0, start).matchAll(CLAUSE_BREAK))) {
+    clauseStart = (match.index ?? 0) + match[0].length
+  }
+  const after = text.slice(end).search(CLAUSE_BREAK)
+  const clauseEnd = after === -1 ? text.length : end + after
+
+  const lead = text.slice(clauseStart, start).trim().split(" ").slice(-NEGATION_WORDS).join(" ")
+  return !NEGATION.test(lead) && !HISTORY.test(text.slice(clauseStart, clauseEnd))
+}
+
+// Categories whose rules match `text`, in rule order, without duplicates
+export function detectRedFlags(text: string, rules: RedFlagRule[] = RED_FLAG_RULES): RedFlagCategory[] {
+  const normalized = normalize(text)
+  const found = new Set<RedFlagCategory>()
+  for (const rule of rules) {
+    if (found.has(rule.category)) continue
+    if (mentions(normalized, rule).some(([start, end]) => isCurrent(normalized, start, end))) found.add(rule.category)
+  }
+  return [...found]
+}
+
+// --- emergency numbers ---
+
+export interface EmergencyContacts {
+  emergency: string
+  poison?: string
+  crisis?: { name: string; number: string }
+}
+
+// Keyed by ISO 3166 region; 112 reaches emergency services from any mobile
+// phone in most countries and is the fallback
+export const EMERGENCY_CONTACTS: Record<string, EmergencyContacts> = {
+  US: { emergency: "911", poison: "1-800-222-1222", crisis: { name: "988 Suicide & Crisis Lifeline", number: "988" } },
+  CA: { emergency: "911", poison: "1-844-764-7669", crisis: { name: "9-8-8 Suicide Crisis Helpline", number: "988" } },
+  GB: { emergency: "999", poison: "111", crisis: { name: "Samaritans", number: "116 123" } },
+  IE: { emergency: "112", crisis: { name: "Samaritans", number: "116 123" } },
+  IN: { emergency: "112", poison: "1800-116-117", crisis: { name: "Tele MANAS", number: "14416" } },
+  AU: { emergency: "000", poison: "13 11 26", crisis: { name: "Lifeline", number: "13 11 14" } },
+  NZ: { emergency: "111", poison: "0800 764 766", crisis: { name: "Need to talk?", number: "1737" } },
+  DE: { emergency: "112", crisis: { name: "TelefonSeelsorge", number: "0800 111 0 111" } },
+  FR: { emergency: "112", crisis: { name: "Numéro national de prévention du suicide", number: "3114" } },
+}
+
+const DEFAULT_CONTACTS: EmergencyContacts = { emergency: "112" }
+
+// Contacts for a BCP 47 locale such as "en-GB"; locales without a region
+// fall back to the international defaults
+export function emergencyContactsFor(locale: string | undefined): EmergencyContacts {
+  const region = locale?.split(/[-_]/)[1]?.toUpperCase()
+  return (region && EMERGENCY_CONTACTS[region]) || DEFAULT_CONTACTS
+}
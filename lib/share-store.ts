@@ -0,0 +1,170 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "fs/promises"
+import path from "path"
+
+import { getBackendConfig } from "@/lib/config"
+import type { ShareRecord } from "@/lib/share"
+
+// Server-side storage for shared conversations. Adapters implement
+// ShareStorage; the file-system adapter suits local runs and single-instance
+// deployments, and others (object storage, a database) plug in through
+// STORAGE_ADAPTERS and MEDIASSIST_SHARE_STORAGE. New shares go through
+// createShare, which clears out expired ones and enforces the size cap.
+
+export interface ShareStorage {
+  put(record: ShareRecord): Promise<void>
+  get(id: string): Promise<ShareRecord | null>
+  delete(id: string): Promise<void>
+  // Deletes shares that expired before `now`; returns the bytes the rest use
+  sweep(now: Date): Promise<number>
+}
+
+export class ShareLimitError extends Error {
+  constructor(
+    message: string,
+    readonly code: "rate_limited" | "storage_full"
+  ) {
+    super(message)
+    this.name = "ShareLimitError"
+  }
+}
+
+// 144 random bits, URL-safe
+const ID_PATTERN = /^[A-Za-z0-9_-]{24}$/
+
+export const newShareId = () => randomBytes(18).toString("base64url")
+export const newRevokeToken = () => randomBytes(32).toString("base64url")
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex")
+
+export function isValidShareId(id: string): boolean {
+  return ID_PATTERN.test(id)
+}
+
+export function matchesRevokeToken(record: ShareRecord, token: string): boolean {
+  const expected = Buffer.from(record.revokeTokenHash, "hex")
+  const actual = Buffer.from(hashToken(token), "hex")
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+// One JSON file per share, named by its ID. Each file's modification time is
+// set to the share's expiry, so sweeps only need to stat the directory.
+export class FileShareStorage implements ShareStorage {
+  constructor(private readonly dir: string) {}
+
+  private file(id: string): string {
+    // IDs come from URLs; never let one escape the directory
+    if (!isValidShareId(id)) throw new Error(`Invalid share ID: ${id}`)
+    return path.join(this.dir, `${id}.json`)
+  }
+
+  async put(record: ShareRecord): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    const file = this.file(record.id)
+    await writeFile(file, JSON.stringify(record), { flag: "wx" })
+    await utimes(file, new Date(), new Date(record.expiresAt))
+  }
+
+  async get(id: string): Promise<ShareRecord | null> {
+    try {
+      return JSON.parse(await readFile(this.file(id), "utf8")) as ShareRecord
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw err
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this.file(id), { force: true })
+  }
+
+  async sweep(now: Date): Promise<number> {
+    let names: string[]
+    try {
+      names = await readdir(this.dir)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return 0
+      throw err
+    }
+    let bytes = 0
+    for (const name of names) {
+      if (!name.endsWith(".json") || !isValidShareId(name.slice(0, -".json".length))) continue
+      const file = path.join(this.dir, name)
+      const info = await stat(file).catch(() => null)
+      if (!info) continue
+      if (info.mtime <= now) await rm(file, { force: true })
+      else bytes += info.size
+    }
+    return bytes
+  }
+}
+
+const STORAGE_ADAPTERS: Record<ReturnType<typeof getBackendConfig>["share"]["storage"], (dir: string) => ShareStorage> =
+  {
+    fs: (dir) => new FileShareStorage(path.resolve(dir)),
+  }
+
+let storage: ShareStorage | null = null
+
+export function getShareStorage(): ShareStorage {
+  if (!storage) {
+    const { share } = getBackendConfig()
+    storage = STORAGE_ADAPTERS[share.storage](share.dir)
+  }
+  return storage
+}
+
+// Key for the per-client share limit: the address the nearest trusted proxy
+// saw, or one key for everyone when no proxies are configured
+// (MEDIASSIST_TRUSTED_PROXIES)
+export function shareClient(req: Request): string {
+  const { trustedProxies } = getBackendConfig()
+  if (trustedProxies === 0) return "local"
+  const forwarded = (req.headers.get("X-Forwarded-For") ?? "").split(",").map((entry) => entry.trim())
+  return forwarded[forwarded.length - trustedProxies] || "local"
+}
+
+// Per-client cap on new shares, counted in memory by this server instance
+const SHARES_PER_HOUR = 20
+const HOUR_MS = 60 * 60 * 1000
+const recentShares = new Map<string, number[]>()
+
+function checkRateLimit(client: string, now: number) {
+  const recent = (recentShares.get(client) ?? []).filter((time) => time > now - HOUR_MS)
+  if (recent.length >= SHARES_PER_HOUR) {
+    throw new ShareLimitError("Too many links created recently. Try again later.", "rate_limited")
+  }
+  recent.push(now)
+  recentShares.set(client, recent)
+  // Forget clients whose window has passed so the map cannot grow unbounded
+  if (recentShares.size > 10_000) {
+    for (const [key, times] of Array.from(recentShares)) {
+      if (times.every((time) => time <= now - HOUR_MS)) recentShares.delete(key)
+    }
+  }
+}
+
+// Stores a new share for `client` (e.g. its IP address) after removing
+// expired ones. Throws ShareLimitError when the client has created too many
+// links or the store is full.
+export async function createShare(record: ShareRecord, client: string): Promise<void> {
+  const now = new Date()
+  checkRateLimit(client, now.getTime())
+  const storage = getShareStorage()
+  const used = await storage.sweep(now)
+  if (used + Buffer.byteLength(JSON.stringify(record)) > getBackendConfig().share.maxBytes) {
+    throw new ShareLimitError("Sharing is unavailable right now because storage is full.", "storage_full")
+  }
+  await storage.put(record)
+}
+
+// The share if it exists and has not expired; expired ones are deleted on access
+export async function loadShare(id: string): Promise<ShareRecord | null> {
+  if (!isValidShareId(id)) return null
+  const record = await getShareStorage().get(id)
+  if (!record) return null
+  if (new Date(record.expiresAt) <= new Date()) {
+    await getShareStorage().delete(id)
+    return null
+  }
+  return record
+}
@@ -0,0 +1,93 @@
+import { z } from "zod"
+
+import type { ExportedMessage } from "@/lib/conversation-export"
+import { exportedMessageSchema } from "@/lib/conversation-import"
+
+// Read-only share links. The page posts a snapshot of the visible
+// conversation to /api/share, which stores it (lib/share-store.ts) under an
+// unguessable ID and hands back a secret for revoking it later.
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30] as const
+export const REVOKE_HEADER = "X-Revoke-Token"
+export const MAX_SHARE_BYTES = 20 * 1024 * 1024
+
+export const shareRequestSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  messages: z.array(exportedMessageSchema).min(1, "There is nothing to share yet").max(500),
+  expiresInDays: z.union([z.literal(1), z.literal(7), z.literal(30)]),
+  redactImages: z.boolean().default(false),
+})
+
+export type ShareRequestBody = z.input<typeof shareRequestSchema>
+
+export interface ShareCreated {
+  id: string
+  url: string
+  revokeToken: string
+  expiresAt: string
+}
+
+export type SharedMessage = ExportedMessage & {
+  // Number of images removed when the link was created with redaction
+  redactedImages?: number
+}
+
+export interface ShareRecord {
+  id: string
+  // SHA-256 of the revoke token; the token itself is never stored
+  revokeTokenHash: string
+  title: string
+  messages: SharedMessage[]
+  createdAt: string
+  expiresAt: string
+}
+
+export const sharePath = (id: string) => `/share/${id}`
+
+// --- links created in this browser, kept so they can be revoked later ---
+
+export interface SavedShare extends ShareCreated {
+  // Saved conversation the link was created from
+  conversationId: string | null
+}
+
+const STORAGE_KEY = "medi-assist:shares"
+
+const savedShareSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  revokeToken: z.string(),
+  expiresAt: z.string(),
+  conversationId: z.string().nullable(),
+})
+
+// Links that have not expired yet
+export function loadSavedShares(): SavedShare[] {
+  try {
+    const parsed = z.array(savedShareSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]"))
+    return parsed.success ? parsed.data.filter((share) => new Date(share.expiresAt) > new Date()) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveSavedShares(shares: SavedShare[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shares))
+}
+
+// --- API errors ---
+
+export type ShareErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "payload_too_large"
+  | "consent_required"
+  | "rate_limited"
+  | "storage_full"
+  | "not_found"
+  | "revoke_denied"
+  | "internal_error"
+
+export interface ShareErrorBody {
+  error: { code: ShareErrorCode; message: string }
+}
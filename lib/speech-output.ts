@@ -0,0 +1,194 @@
+import { z } from "zod"
+
+// Read-aloud for assistant answers. Markdown is flattened to plain sentences
+// and dosages are spelled out ("5 mg" → "five milligrams") because speech
+// engines otherwise read unit abbreviations letter by letter.
+
+// --- numbers ---
+
+const ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+]
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"]
+const SCALES: [number, string][] = [
+  [1_000_000_000, "billion"],
+  [1_000_000, "million"],
+  [1000, "thousand"],
+  [100, "hundred"],
+]
+
+function integerToWords(n: number): string {
+  if (n < 20) return ONES[n]
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : "")
+  for (const [scale, word] of SCALES) {
+    if (n >= scale) {
+      const rest = n % scale
+      return `${integerToWords(Math.floor(n / scale))} ${word}${rest ? ` ${rest < 100 && scale >= 100 ? "and " : ""}${integerToWords(rest)}` : ""}`
+    }
+  }
+  return String(n)
+}
+
+// "2.5" → "two point five", "1,000" → "one thousand"
+export function numberToWords(value: string): string {
+  const [whole, fraction] = value.replace(/,/g, "").split(".")
+  const n = Number(whole)
+  if (!Number.isSafeInteger(n) || n >= 1e12) return value
+  const words = integerToWords(n)
+  if (!fraction) return words
+  return `${words} point ${fraction.split("").map((digit) => ONES[Number(digit)]).join(" ")}`
+}
+
+// --- dosages ---
+
+// Singular and plural spoken forms, keyed by how the unit is written
+const UNITS: Record<string, [string, string]> = {
+  mcg: ["microgram", "micrograms"],
+  µg: ["microgram", "micrograms"],
+  μg: ["microgram", "micrograms"],
+  ug: ["microgram", "micrograms"],
+  mg: ["milligram", "milligrams"],
+  ng: ["nanogram", "nanograms"],
+  g: ["gram", "grams"],
+  kg: ["kilogram", "kilograms"],
+  ml: ["milliliter", "milliliters"],
+  l: ["liter", "liters"],
+  iu: ["international unit", "international units"],
+  unit: ["unit", "units"],
+  units: ["unit", "units"],
+  mmol: ["millimole", "millimoles"],
+  meq: ["milliequivalent", "milliequivalents"],
+  "%": ["percent", "percent"],
+}
+
+const PER_UNITS: Record<string, string> = {
+  kg: "kilogram",
+  ml: "milliliter",
+  l: "liter",
+  day: "day",
+  d: "day",
+  dose: "dose",
+  h: "hour",
+  hr: "hour",
+  hour: "hour",
+  m2: "square meter",
+}
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`
+const DOSAGE_PATTERN = new RegExp(
+  String.raw`(${NUMBER})(?:\s*(?:-|–|to)\s*(${NUMBER}))?\s?(mcg|µg|μg|ug|mg|ng|g|kg|ml|l|iu|units?|mmol|meq|%)(?:\/(kg|ml|l|day|d|dose|hr|hour|h|m2))?(?![\p{L}\d])`,
+  "giu"
+)
+
+// Prescription shorthand that engines cannot pronounce
+const ABBREVIATIONS: [RegExp, string | ((...groups: string[]) => string)][] = [
+  [/\b(?:od|qd)\b/gi, "once a day"],
+  [/\b(?:bid|bd)\b/gi, "twice a day"],
+  [/\b(?:tid|tds)\b/gi, "three times a day"],
+  [/\b(?:qid|qds)\b/gi, "four times a day"],
+  [/\bprn\b/gi, "as needed"],
+  [/\bq(\d{1,2})h\b/gi, (_, hours) => `every ${numberToWords(hours)} hours`],
+]
+
+export function expandDosages(text: string): string {
+  let result = text.replace(DOSAGE_PATTERN, (_, from: string, to: string | undefined, unit: string, per?: string) => {
+    const [singular, plural] = UNITS[unit.toLowerCase()]
+    const amount = to ? `${numberToWords(from)} to ${numberToWords(to)}` : numberToWords(from)
+    const name = !to && from === "1" ? singular : plural
+    return `${amount} ${name}${per ? ` per ${PER_UNITS[per.toLowerCase()]}` : ""}`
+  })
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    result = result.replace(pattern, replacement as (substring: string, ...groups: string[]) => string)
+  }
+  return result
+}
+
+// --- markdown ---
+
+// Ends a line with a full stop if it has no punctuation, so headings and
+// list items are read as separate sentences
+const closeSentence = (line: string) => (/[.!?:;,]$/.test(line) ? line : `${line}.`)
+
+export function markdownToSpeech(markdown: string): string {
+  const text = markdown
+    // Code is not meant to be listened to
+    .replace(/```[\s\S]*?(?:```|$)/g, "")
+    .replace(/\s*\[\^\d+\]/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?![\w*])/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+
+  const lines = text
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*#{1,6}\s+/, "")
+        .replace(/^\s*>\s?/, "")
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")
+        // Table separators and rules
+        .replace(/^\s*\|?\s*:?-{3,}.*$/, "")
+        .replace(/^\s*[-*_]{3,}\s*$/, "")
+        .replace(/^\s*\|(.*)\|\s*$/, "$1")
+        .replace(/\s*\|\s*/g, ", ")
+        .trim()
+    )
+    .filter(Boolean)
+    .map(closeSentence)
+
+  return expandDosages(lines.join(" ")).replace(/\s+/g, " ").trim()
+}
+
+// Engines stop on long utterances (Chrome after ~15 seconds), so text is
+// queued in sentence-sized pieces
+const MAX_CHUNK_LENGTH = 200
+
+export function speechChunks(text: string): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? []
+  const chunks: string[] = []
+  let current = ""
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > MAX_CHUNK_LENGTH) {
+      chunks.push(current.trim())
+      current = ""
+    }
+    current += sentence
+  }
+  if (current.trim()) chunks.push(current.trim())
+  return chunks
+}
+
+// --- settings ---
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2] as const
+
+export const speechSettingsSchema = z.object({
+  rate: z.number().min(0.5).max(2).catch(1),
+  // SpeechSynthesisVoice.voiceURI; null uses the browser default
+  voiceURI: z.string().nullable().catch(null),
+  // Read each new answer aloud as soon as it is complete
+  autoRead: z.boolean().catch(false),
+})
+
+export type SpeechSettings = z.infer<typeof speechSettingsSchema>
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { rate: 1, voiceURI: null, autoRead: false }
+
+const STORAGE_KEY = "medi-assist:speech-settings"
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    const parsed = speechSettingsSchema.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"))
+    return parsed.success ? parsed.data : DEFAULT_SPEECH_SETTINGS
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+
+import { diffWords } from "@/lib/text-diff"
+
+describe("diffWords", () => {
+  it("marks changed words", () => {
+    expect(diffWords("take one tablet", "take two tablets")).toEqual([
+      { type: "same", text: "take " },
+      { type: "removed", text: "one" },
+      { type: "added", text: "two" },
+      { type: "same", text: " " },
+      { type: "removed", text: "tablet" },
+      { type: "added", text: "tablets" },
+    ])
+  })
+
+  it("shows inputs too large to diff whole", () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `line ${i}\n`).join("")
+    const after = Array.from({ length: 3000 }, (_, i) => `row ${i}\n`).join("")
+    expect(diffWords(before, after)).toEqual([
+      { type: "removed", text: before },
+      { type: "added", text: after },
+    ])
+  })
+})
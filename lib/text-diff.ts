@@ -0,0 +1,61 @@
+// Word-level diff between two answers, for the side-by-side compare view.
+// Plain LCS; inputs too large for that are compared line by line instead,
+// and ones too large even for that are shown as one removal and one addition.
+
+export interface DiffPart {
+  type: "same" | "added" | "removed"
+  text: string
+}
+
+const MAX_CELLS = 4_000_000
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return (byLine ? text.match(/[^\n]*\n|[^\n]+$/g) : text.match(/\s+|[^\s]+/g)) ?? []
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) last.text += text
+  else parts.push({ type, text })
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  let a = tokenize(before, false)
+  let b = tokenize(after, false)
+  if (a.length * b.length > MAX_CELLS) {
+    a = tokenize(before, true)
+    b = tokenize(after, true)
+  }
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      { type: "removed" as const, text: before },
+      { type: "added" as const, text: after },
+    ].filter((part) => part.text)
+  }
+
+  // lcs[i][j] = length of the common subsequence of a[i:] and b[j:]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, "same", a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(parts, "removed", a[i++])
+    } else {
+      push(parts, "added", b[j++])
+    }
+  }
+  while (i < a.length) push(parts, "removed", a[i++])
+  while (j < b.length) push(parts, "added", b[j++])
+  return parts
+}
@@ -0,0 +1,121 @@
+import { z } from "zod"
+
+// Dictation for the chat input. Browsers with the Web Speech API transcribe
+// locally with live interim results; elsewhere the page records audio with
+// MediaRecorder and posts it to /api/transcribe when recording stops.
+
+export const SPEECH_LANGUAGES = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "en-IN", label: "English (India)" },
+  { code: "es-ES", label: "Español" },
+  { code: "fr-FR", label: "Français" },
+  { code: "de-DE", label: "Deutsch" },
+  { code: "it-IT", label: "Italiano" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "hi-IN", label: "हिन्दी" },
+  { code: "zh-CN", label: "中文 (简体)" },
+] as const
+
+export type SpeechLanguage = (typeof SPEECH_LANGUAGES)[number]["code"]
+
+export const DEFAULT_SPEECH_LANGUAGE: SpeechLanguage = "en-US"
+
+// Uploaded recordings; a few minutes of Opus audio is well under this
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024
+// Recording stops by itself after this long
+export const MAX_RECORDING_MS = 2 * 60 * 1000
+
+export const speechLanguageSchema = z.enum(
+  SPEECH_LANGUAGES.map((language) => language.code) as [SpeechLanguage, ...SpeechLanguage[]]
+)
+
+export const transcriptionRequestSchema = z.object({
+  audio: z
+    .instanceof(Blob, { message: "Attach the recording as `audio`" })
+    .refine((audio) => audio.size > 0, "The recording is empty")
+    .refine((audio) => /^audio\//.test(audio.type), "The recording must be an audio file")
+    .refine((audio) => audio.size <= MAX_AUDIO_BYTES, {
+      message: "The recording is too long to transcribe",
+      params: { status: 413 },
+    }),
+  language: speechLanguageSchema.catch(DEFAULT_SPEECH_LANGUAGE),
+})
+
+export const upstreamTranscriptionSchema = z.object({ text: z.string() })
+
+export interface TranscriptionResult {
+  text: string
+}
+
+// --- Web Speech API (not in TypeScript's DOM lib) ---
+
+interface SpeechRecognitionAlternative {
+  transcript: string
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean
+  readonly length: number
+  [index: number]: SpeechRecognitionAlternative
+}
+
+export interface SpeechRecognitionEvent {
+  readonly resultIndex: number
+  readonly results: { readonly length: number; [index: number]: SpeechRecognitionResult }
+}
+
+export interface SpeechRecognition {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onresult: ((event: SpeechRecognitionEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+  abort(): void
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition
+
+export function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const w = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null
+}
+
+export function canRecordAudio(): boolean {
+  return typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+}
+
+// Messages for SpeechRecognition error codes worth explaining
+export const SPEECH_ERROR_MESSAGES: Record<string, string> = {
+  "not-allowed": "Microphone access was blocked. Allow it in your browser settings to dictate.",
+  "service-not-allowed": "Microphone access was blocked. Allow it in your browser settings to dictate.",
+  "audio-capture": "No microphone was found.",
+  network: "Speech recognition needs an internet connection.",
+  "language-not-supported": "This language is not supported for dictation in your browser.",
+}
+
+// Appends dictated text to what is already typed
+export function appendTranscript(input: string, text: string): string {
+  const addition = text.trim()
+  if (!addition) return input
+  return input && !/\s$/.test(input) ? `${input} ${addition}` : input + addition
+}
+
+// --- saved language ---
+
+const STORAGE_KEY = "medi-assist:speech-language"
+
+export function loadSpeechLanguage(): SpeechLanguage {
+  const parsed = speechLanguageSchema.safeParse(localStorage.getItem(STORAGE_KEY))
+  return parsed.success ? parsed.data : DEFAULT_SPEECH_LANGUAGE
+}
+
+export function saveSpeechLanguage(language: SpeechLanguage) {
+  localStorage.setItem(STORAGE_KEY, language)
+}